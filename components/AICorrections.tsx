@@ -4,7 +4,24 @@ import { AICorrectionSuggestion, generateAIValidationSuggestions, applyAISuggest
 interface AICorrectionsProps {
   data: any[];
   entityType: string;
-  onApplySuggestions: (newData: any[]) => void;
+  onApplySuggestions: (newData: any[], label: string) => void;
+}
+
+const suggestionVerbs: Record<AICorrectionSuggestion['type'], string> = {
+  missing_value: 'filled',
+  format_error: 'standardized',
+  range_error: 'clamped',
+  reference_error: 'fixed references in',
+  duplicate_error: 'deduplicated'
+};
+
+// History label such as "AI: standardized phone (12 cells)"
+function describeSuggestions(applied: AICorrectionSuggestion[]): string {
+  const types = Array.from(new Set(applied.map(s => s.type)));
+  const columns = Array.from(new Set(applied.map(s => s.column)));
+  const verb = types.length === 1 ? suggestionVerbs[types[0]] : 'corrected';
+  const target = columns.length === 1 ? columns[0] : `${columns.length} columns`;
+  return `AI: ${verb} ${target} (${applied.length} ${applied.length === 1 ? 'cell' : 'cells'})`;
 }
 
 export default function AICorrections({ data, entityType, onApplySuggestions }: AICorrectionsProps) {
@@ -48,7 +65,7 @@ export default function AICorrections({ data, entityType, onApplySuggestions }:
   const handleApplySelected = () => {
     const selectedSuggestionsList = suggestions.filter((_, index) => selectedSuggestions.has(index));
     const newData = applyAISuggestions(data, selectedSuggestionsList);
-    onApplySuggestions(newData);
+    onApplySuggestions(newData, describeSuggestions(selectedSuggestionsList));
     setShowApplied(true);
     
     // Reset selection after applying
@@ -60,7 +77,7 @@ export default function AICorrections({ data, entityType, onApplySuggestions }:
 
   const handleApplyAll = () => {
     const newData = applyAISuggestions(data, suggestions);
-    onApplySuggestions(newData);
+    onApplySuggestions(newData, describeSuggestions(suggestions));
     setShowApplied(true);
     
     setTimeout(() => {
@@ -0,0 +1,70 @@
+import React from 'react';
+import { ColumnProfile } from '@/lib/columnProfile';
+import { FieldDefinition } from '@/lib/schemas';
+
+interface ColumnProfilePanelProps {
+  profiles: Record<string, ColumnProfile>;
+  fields: FieldDefinition[];
+}
+
+const typeLabels: Record<string, string> = {
+  string: 'text',
+  integer: 'integer',
+  number: 'number',
+  list: 'list',
+  phaseList: 'phase list',
+  json: 'JSON',
+  email: 'email',
+  date: 'date'
+};
+
+export default function ColumnProfilePanel({ profiles, fields }: ColumnProfilePanelProps) {
+  const columns = Object.values(profiles);
+
+  return (
+    <div className="mt-3 bg-gray-900 rounded-lg border border-gray-700 p-4 overflow-x-auto">
+      <table className="min-w-full text-xs text-left text-gray-300">
+        <thead>
+          <tr>
+            {['Column', 'Type', 'Nulls', 'Distinct', 'Min', 'Max', 'Top values'].map(heading => (
+              <th key={heading} className="px-2 py-1 border-b border-gray-700 font-semibold whitespace-nowrap">{heading}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {columns.map(profile => {
+            const field = fields.find(f => f.name === profile.column);
+            // Free text fits any schema type, so only a concrete disagreement is flagged
+            const typeMismatch = field && profile.inferredType !== 'string' && field.type !== profile.inferredType
+              && !(field.type === 'number' && profile.inferredType === 'integer');
+
+            return (
+              <tr key={profile.column}>
+                <td className="px-2 py-1 border-b border-gray-800 whitespace-nowrap">
+                  {profile.column}
+                  {!field && <span className="ml-1 text-gray-500">(unmapped)</span>}
+                </td>
+                <td className="px-2 py-1 border-b border-gray-800 whitespace-nowrap">
+                  <span className={typeMismatch ? 'text-yellow-400' : 'text-blue-300'}>{typeLabels[profile.inferredType]}</span>
+                  {typeMismatch && <span className="ml-1 text-yellow-400" title={`Schema expects ${typeLabels[field!.type]}`}>⚠ schema: {typeLabels[field!.type]}</span>}
+                  {profile.mismatchCount > 0 && (
+                    <span className="ml-1 text-gray-500">({profile.mismatchCount} outliers)</span>
+                  )}
+                </td>
+                <td className={`px-2 py-1 border-b border-gray-800 ${profile.nullCount > 0 ? 'text-yellow-300' : ''}`}>
+                  {profile.nullCount} / {profile.total}
+                </td>
+                <td className="px-2 py-1 border-b border-gray-800">{profile.distinctCount}</td>
+                <td className="px-2 py-1 border-b border-gray-800 truncate max-w-[120px]">{profile.min ?? '—'}</td>
+                <td className="px-2 py-1 border-b border-gray-800 truncate max-w-[120px]">{profile.max ?? '—'}</td>
+                <td className="px-2 py-1 border-b border-gray-800 text-gray-400 truncate max-w-[300px]">
+                  {profile.topValues.map(top => `${top.value} (${top.count})`).join(', ')}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
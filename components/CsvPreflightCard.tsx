@@ -0,0 +1,100 @@
+import React from 'react';
+import {
+  CsvPreflight,
+  CsvParseOptions,
+  CsvDelimiter,
+  CsvEncoding,
+  ByteOrderMark,
+  csvDelimiters,
+  csvEncodings,
+  csvBoms,
+  previewCsv
+} from '@/lib/csvPreflight';
+
+interface CsvPreflightCardProps {
+  preflight: CsvPreflight;
+  onOptionsChange: (fileId: string, options: CsvParseOptions) => void;
+}
+
+const delimiterLabel = (delimiter: CsvDelimiter) => csvDelimiters.find(d => d.value === delimiter)?.label ?? delimiter;
+const encodingLabel = (encoding: CsvEncoding) => csvEncodings.find(e => e.value === encoding)?.label ?? encoding;
+// Select values are strings, 'none' stands for no BOM
+const bomValue = (bom: ByteOrderMark) => bom ?? 'none';
+
+export default function CsvPreflightCard({ preflight, onOptionsChange }: CsvPreflightCardProps) {
+  const { fileId, fileName, detected, options } = preflight;
+  const preview = previewCsv(preflight.sample, options);
+  const [header = [], ...rows] = preview;
+
+  return (
+    <div className="border border-gray-700 rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-xs">
+        <span className="text-gray-200 font-medium truncate">{fileName}</span>
+        <span className="text-gray-500">
+          Detected: {delimiterLabel(detected.delimiter)} • {encodingLabel(detected.encoding)} • {detected.bom ? `BOM (${detected.bom.toUpperCase()})` : 'no BOM'}
+        </span>
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-gray-300">
+        <label className="flex items-center gap-2">
+          Delimiter
+          <select
+            value={options.delimiter}
+            onChange={e => onOptionsChange(fileId, { ...options, delimiter: e.target.value as CsvDelimiter })}
+            className="bg-gray-700 text-gray-100 rounded px-2 py-1"
+          >
+            {csvDelimiters.map(d => (
+              <option key={d.label} value={d.value}>{d.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Encoding
+          <select
+            value={options.encoding}
+            onChange={e => onOptionsChange(fileId, { ...options, encoding: e.target.value as CsvEncoding })}
+            className="bg-gray-700 text-gray-100 rounded px-2 py-1"
+          >
+            {csvEncodings.map(enc => (
+              <option key={enc.value} value={enc.value}>{enc.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          BOM
+          <select
+            value={bomValue(options.bom)}
+            onChange={e => onOptionsChange(fileId, { ...options, bom: csvBoms.find(b => bomValue(b.value) === e.target.value)?.value ?? null })}
+            className="bg-gray-700 text-gray-100 rounded px-2 py-1"
+          >
+            {csvBoms.map(b => (
+              <option key={b.label} value={bomValue(b.value)}>{b.label}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs text-left text-gray-300">
+          <thead>
+            <tr>
+              {header.map((cell, idx) => (
+                <th key={idx} className="px-2 py-1 border-b border-gray-700 font-semibold whitespace-nowrap">{cell}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, rowIdx) => (
+              <tr key={rowIdx}>
+                {row.map((cell, idx) => (
+                  <td key={idx} className="px-2 py-1 border-b border-gray-800 whitespace-nowrap truncate max-w-[200px]">{cell}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {header.length <= 1 && (
+        <p className="text-xs text-yellow-300">Only one column found, the delimiter may be wrong.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,559 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { CrossEntityData, ValidationError, ValidationResult, indexValidationErrors, cellKey } from '@/lib/validation';
+import { AISearchResult } from '@/lib/aiEngine';
+import { ColumnProfile } from '@/lib/columnProfile';
+import { FieldDefinition } from '@/lib/schemas';
+import { RowAction } from '@/lib/tableOperations';
+import { getCellEditorKind, getListSuggestions, getPhaseCount } from '@/lib/cellEditors';
+import { CellEdit } from '@/lib/history';
+import { CellPosition, toRange, rangeSize, inRange, clampPosition, nextCell, rangeToTsv, pasteIntoRange, fillDown } from '@/lib/gridSelection';
+import { isMultiCellPaste, readClipboardCells } from '@/lib/clipboardImport';
+import ListCellEditor from './ListCellEditor';
+import PhaseCellEditor from './PhaseCellEditor';
+import JsonCellEditor from './JsonCellEditor';
+import { GridViewSettings, ColumnFilter, defaultGridView, applyGridView, getOrderedColumns, getVisibleColumns, moveColumn } from '@/lib/gridView';
+
+interface DataGridProps {
+  data: any[];
+  validationResult: ValidationResult | null;
+  rowErrors: Record<number, Record<string, string>>;
+  selectedRow: number | null;
+  searchResult: AISearchResult | null;
+  onEdit: (rowIndex: number, column: string, value: string) => void;
+  onCellBlur: () => void;
+  onPaste: (e: React.ClipboardEvent) => void;
+  columnProfiles?: Record<string, ColumnProfile> | null;
+  view: GridViewSettings;
+  onViewChange: (view: GridViewSettings) => void;
+  fields: FieldDefinition[];
+  onRowAction: (action: RowAction, rowIndex: number) => void;
+  onAddColumn: (column: string) => void;
+  onDeleteColumn: (column: string) => void;
+  crossEntityData: CrossEntityData;
+  onEditCells: (edits: CellEdit[], label: string) => void;
+}
+
+const rowActions: { action: RowAction; label: string }[] = [
+  { action: 'insertAbove', label: 'Insert row above' },
+  { action: 'insertBelow', label: 'Insert row below' },
+  { action: 'duplicate', label: 'Duplicate row' },
+  { action: 'delete', label: 'Delete row' }
+];
+
+const CUSTOM_COLUMN = '__custom__';
+
+// Rows have a fixed height so only the ones in view need to be rendered: padding, a 24px input and a
+// single 16px line for the cell's error message
+const ROW_HEIGHT = 52;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN_ROWS = 10;
+
+const noErrors: ValidationError[] = [];
+
+export default function DataGrid({
+  data,
+  validationResult,
+  rowErrors,
+  selectedRow,
+  searchResult,
+  onEdit,
+  onCellBlur,
+  onPaste,
+  columnProfiles,
+  view,
+  onViewChange,
+  fields,
+  onRowAction,
+  onAddColumn,
+  onDeleteColumn,
+  crossEntityData,
+  onEditCells
+}: DataGridProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [draggedColumn, setDraggedColumn] = useState<string | null>(null);
+  const [showColumnMenu, setShowColumnMenu] = useState(false);
+  const [rowMenu, setRowMenu] = useState<number | null>(null);
+  const [showAddColumn, setShowAddColumn] = useState(false);
+  const [newColumn, setNewColumn] = useState('');
+  const [customColumn, setCustomColumn] = useState('');
+  const [editingCell, setEditingCell] = useState<{ rowIndex: number; column: string } | null>(null);
+  // The selected range runs from the anchor to the active cell, the one with focus
+  const [anchor, setAnchor] = useState<CellPosition | null>(null);
+  const [active, setActive] = useState<CellPosition | null>(null);
+  // Set by keyboard moves so the new cell gets focus once it is rendered
+  const pendingFocusRef = useRef(false);
+  const errorIndex = useMemo(() => indexValidationErrors(validationResult?.errors ?? []), [validationResult]);
+  const matchedRows = useMemo(() => new Set(searchResult?.matchedRows ?? []), [searchResult]);
+  // Row order kept while a cell is typed into, so the row does not sort or filter away from the cursor
+  const [frozenRows, setFrozenRows] = useState<number[] | null>(null);
+  // Sorting and filtering pick and order original row indices, the rows themselves never move
+  const viewRows = useMemo(
+    () => applyGridView(data, searchResult ? searchResult.matchedRows : data.map((_, idx) => idx), view, errorIndex),
+    [searchResult, data, view, errorIndex]
+  );
+  const rowIndices = frozenRows && frozenRows.every(rowIndex => rowIndex < data.length) ? frozenRows : viewRows;
+
+  // Bring the selected row into view, it may not be rendered yet
+  useEffect(() => {
+    const container = containerRef.current;
+    if (selectedRow === null || !container) return;
+    const position = rowIndices.indexOf(selectedRow);
+    if (position < 0) return;
+    const top = position * ROW_HEIGHT;
+    if (top < container.scrollTop || top + ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+      container.scrollTop = Math.max(0, top - container.clientHeight / 2);
+    }
+    container.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [selectedRow, rowIndices]);
+
+  // Scroll the active cell into view and focus it, rows outside the viewport are not rendered yet
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!active || !container || !pendingFocusRef.current) return;
+    const headerHeight = container.querySelector('thead')?.clientHeight ?? 0;
+    const top = active.row * ROW_HEIGHT;
+    if (top < container.scrollTop) {
+      container.scrollTop = top;
+    } else if (headerHeight + top + ROW_HEIGHT > container.scrollTop + container.clientHeight) {
+      container.scrollTop = headerHeight + top + ROW_HEIGHT - container.clientHeight;
+    }
+    const input = container.querySelector<HTMLInputElement>(`[data-cell="${active.row}:${active.col}"]`);
+    if (input) {
+      pendingFocusRef.current = false;
+      input.focus();
+      input.select();
+    }
+  }, [active, scrollTop]);
+
+  if (data.length === 0) {
+    return (
+      <div tabIndex={0} onPaste={onPaste} className="focus:outline-none">
+        <em className="text-gray-600">Data grid will appear here after upload, or paste rows copied from a spreadsheet.</em>
+      </div>
+    );
+  }
+
+  const allColumns = Object.keys(data[0]);
+  const columns = getVisibleColumns(allColumns, view);
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const lastRow = Math.min(rowIndices.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN_ROWS);
+
+  const handleSort = (column: string) => {
+    const sort = view.sort?.column !== column
+      ? { column, direction: 'asc' as const }
+      : view.sort.direction === 'asc' ? { column, direction: 'desc' as const } : null;
+    onViewChange({ ...view, sort });
+  };
+
+  const handleFilterChange = (column: string, changes: Partial<ColumnFilter>) => {
+    const filter = { ...(view.filters[column] ?? { value: '', hasError: false }), ...changes };
+    onViewChange({ ...view, filters: { ...view.filters, [column]: filter } });
+  };
+
+  // A hidden column takes its filter with it, it could not be seen or changed otherwise
+  const handleToggleColumn = (column: string) => {
+    if (view.hiddenColumns.includes(column)) {
+      onViewChange({ ...view, hiddenColumns: view.hiddenColumns.filter(c => c !== column) });
+      return;
+    }
+    const filters = { ...view.filters };
+    delete filters[column];
+    onViewChange({ ...view, hiddenColumns: [...view.hiddenColumns, column], filters });
+  };
+
+  // Schema fields the table does not have yet, anything else can be typed in
+  const missingFields = fields.filter(field => !allColumns.includes(field.name));
+  const columnToAdd = (newColumn === CUSTOM_COLUMN ? customColumn : newColumn || missingFields[0]?.name || '').trim();
+
+  const handleAddColumn = () => {
+    if (!columnToAdd || allColumns.includes(columnToAdd)) return;
+    onAddColumn(columnToAdd);
+    setShowAddColumn(false);
+    setNewColumn('');
+    setCustomColumn('');
+  };
+
+  // List, phase and JSON columns of the schema get an editor next to the plain input
+  const editorKinds = Object.fromEntries(
+    columns.map(column => [column, getCellEditorKind(fields.find(field => field.name === column)?.type)])
+  );
+
+  const handleEditorSave = (value: string) => {
+    if (!editingCell) return;
+    onEdit(editingCell.rowIndex, editingCell.column, value);
+    onCellBlur();
+    setEditingCell(null);
+  };
+
+  const renderEditor = (rowIndex: number, column: string) => {
+    const value = data[rowIndex]?.[column];
+    const close = () => setEditingCell(null);
+    switch (editorKinds[column]) {
+      case 'list':
+        return <ListCellEditor value={value} suggestions={getListSuggestions(data, column, crossEntityData)} onSave={handleEditorSave} onCancel={close} />;
+      case 'phaseList':
+        return <PhaseCellEditor value={value} phaseCount={getPhaseCount(data, column)} onSave={handleEditorSave} onCancel={close} />;
+      case 'json':
+        return <JsonCellEditor value={value} onSave={handleEditorSave} onCancel={close} />;
+      default:
+        return null;
+    }
+  };
+
+  const range = anchor && active ? toRange(anchor, active) : null;
+  const isRangeSelected = !!range && rangeSize(range) > 1;
+
+  const moveTo = (position: CellPosition, extend: boolean) => {
+    const next = clampPosition(position, rowIndices.length, columns.length);
+    pendingFocusRef.current = true;
+    setActive(next);
+    if (!extend) setAnchor(next);
+  };
+
+  // The edit is committed, the view sorts and filters again
+  const handleCellBlur = () => {
+    setFrozenRows(null);
+    onCellBlur();
+  };
+
+  const handleCellFocus = (position: CellPosition) => {
+    if (active?.row === position.row && active.col === position.col) return;
+    setActive(position);
+    setAnchor(position);
+  };
+
+  // Shift-click extends the range from the anchor instead of starting a new one
+  const handleCellMouseDown = (e: React.MouseEvent, position: CellPosition) => {
+    if (!e.shiftKey || !anchor) return;
+    e.preventDefault();
+    pendingFocusRef.current = true;
+    setActive(position);
+  };
+
+  const handleCellKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, position: CellPosition) => {
+    const input = e.currentTarget;
+    const length = input.value.length;
+    const allSelected = input.selectionStart === 0 && input.selectionEnd === length;
+    // Left and right move the caret inside the text until it reaches the edge
+    const atStart = allSelected || (input.selectionStart === 0 && input.selectionEnd === 0);
+    const atEnd = allSelected || input.selectionStart === length;
+    const move = (row: number, col: number, extend = e.shiftKey) => {
+      e.preventDefault();
+      moveTo({ row, col }, extend);
+    };
+
+    if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'd') {
+      e.preventDefault();
+      if (!range) return;
+      const edits = fillDown(data, rowIndices, columns, range);
+      onEditCells(edits, `Fill down (${edits.length} ${edits.length === 1 ? 'cell' : 'cells'})`);
+      return;
+    }
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    switch (e.key) {
+      case 'ArrowUp':
+        return move(position.row - 1, position.col);
+      case 'ArrowDown':
+        return move(position.row + 1, position.col);
+      case 'ArrowLeft':
+        return atStart ? move(position.row, position.col - 1) : undefined;
+      case 'ArrowRight':
+        return atEnd ? move(position.row, position.col + 1) : undefined;
+      case 'Tab': {
+        const next = nextCell(position, e.shiftKey, rowIndices.length, columns.length);
+        return move(next.row, next.col, false);
+      }
+      case 'Enter':
+        return move(position.row + (e.shiftKey ? -1 : 1), position.col, false);
+      case 'Escape':
+        setAnchor(position);
+        return;
+    }
+  };
+
+  // A range is copied as tab separated lines, a single cell keeps the normal text copy
+  const handleCellCopy = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    if (!range || !isRangeSelected) return;
+    e.preventDefault();
+    e.clipboardData.setData('text/plain', rangeToTsv(data, rowIndices, columns, range));
+  };
+
+  const handleCellPaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    if (!range) return;
+    const isBlock = isMultiCellPaste(e.clipboardData);
+    if (!isBlock && !isRangeSelected) return;
+    // Pasting over cells replaces the import of pasted rows the grid does otherwise
+    e.preventDefault();
+    e.stopPropagation();
+    const cells = isBlock
+      ? readClipboardCells(e.clipboardData)
+      : [[e.clipboardData.getData('text/plain').replace(/\r?\n$/, '')]];
+    if (!cells) return;
+    const edits = pasteIntoRange(cells, rowIndices, columns, range);
+    onEditCells(edits, `Paste ${edits.length} ${edits.length === 1 ? 'cell' : 'cells'}`);
+  };
+
+  const handleRowAction = (action: RowAction, rowIndex: number) => {
+    setRowMenu(null);
+    onRowAction(action, rowIndex);
+  };
+
+  const handleDrop = (target: string) => {
+    if (draggedColumn && draggedColumn !== target) {
+      onViewChange({ ...view, columnOrder: moveColumn(allColumns, view, draggedColumn, target) });
+    }
+    setDraggedColumn(null);
+  };
+
+  return (
+    <div data-grid>
+      <div className="flex items-center justify-between mb-2 text-xs text-gray-400">
+        <span>
+          Showing {rowIndices.length} of {data.length} rows
+          {view.hiddenColumns.length > 0 && ` • ${view.hiddenColumns.length} hidden columns`}
+        </span>
+        <div className="relative flex gap-3">
+          <button onClick={() => setShowAddColumn(!showAddColumn)} className="hover:text-gray-200">
+            + Column
+          </button>
+          <button onClick={() => setShowColumnMenu(!showColumnMenu)} className="hover:text-gray-200">
+            Columns ▾
+          </button>
+          <button onClick={() => onViewChange(defaultGridView)} className="hover:text-gray-200">
+            Reset view
+          </button>
+          {showColumnMenu && (
+            <div className="absolute right-0 top-5 z-20 bg-gray-800 border border-gray-700 rounded p-2 max-h-72 overflow-y-auto w-56">
+              {getOrderedColumns(allColumns, view).map(column => (
+                <label key={column} className="flex items-center gap-2 py-0.5 text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={!view.hiddenColumns.includes(column)}
+                    onChange={() => handleToggleColumn(column)}
+                  />
+                  <span className="flex-1 truncate">{column}</span>
+                  <button
+                    onClick={() => onDeleteColumn(column)}
+                    className="text-gray-500 hover:text-red-400"
+                    title="Delete this column"
+                  >
+                    ✕
+                  </button>
+                </label>
+              ))}
+            </div>
+          )}
+          {showAddColumn && (
+            <div className="absolute right-0 top-5 z-20 bg-gray-800 border border-gray-700 rounded p-2 w-64 space-y-2">
+              <select
+                value={newColumn || missingFields[0]?.name || CUSTOM_COLUMN}
+                onChange={e => setNewColumn(e.target.value)}
+                className="bg-gray-700 text-gray-100 rounded px-2 py-1 w-full"
+              >
+                {missingFields.map(field => (
+                  <option key={field.name} value={field.name}>{field.name} ({field.type})</option>
+                ))}
+                <option value={CUSTOM_COLUMN}>Other column…</option>
+              </select>
+              {(newColumn === CUSTOM_COLUMN || missingFields.length === 0) && (
+                <input
+                  autoFocus
+                  className="bg-gray-700 text-gray-100 rounded px-2 py-1 w-full focus:outline-none"
+                  placeholder="Column name"
+                  value={customColumn}
+                  onChange={e => { setNewColumn(CUSTOM_COLUMN); setCustomColumn(e.target.value); }}
+                  onKeyDown={e => e.key === 'Enter' && handleAddColumn()}
+                />
+              )}
+              {allColumns.includes(columnToAdd) && <p className="text-red-400">{columnToAdd} already exists</p>}
+              <button
+                onClick={handleAddColumn}
+                disabled={!columnToAdd || allColumns.includes(columnToAdd)}
+                className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+              >
+                Add column
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+      <div
+        ref={containerRef}
+        className="overflow-auto"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+        onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <table className="min-w-full text-xs text-left text-gray-300" onPaste={onPaste}>
+          <thead className="sticky top-0 z-10 bg-gray-900">
+            <tr>
+              <th className="px-2 py-2 border-b border-gray-700 w-10" />
+              {columns.map((key) => {
+                const profile = columnProfiles?.[key];
+                const sortDirection = view.sort?.column === key ? view.sort.direction : null;
+                return (
+                  <th
+                    key={key}
+                    draggable
+                    onDragStart={() => setDraggedColumn(key)}
+                    onDragOver={e => e.preventDefault()}
+                    onDrop={() => handleDrop(key)}
+                    onDragEnd={() => setDraggedColumn(null)}
+                    className={`px-3 py-2 border-b border-gray-700 font-semibold cursor-pointer select-none whitespace-nowrap ${
+                      draggedColumn === key ? 'opacity-50' : ''
+                    }`}
+                    onClick={() => handleSort(key)}
+                    title={profile ? `${profile.nullCount} empty • ${profile.distinctCount} distinct` : undefined}
+                  >
+                    {key}
+                    {sortDirection && <span className="ml-1 text-blue-400">{sortDirection === 'asc' ? '▲' : '▼'}</span>}
+                    {profile && (
+                      <span className="ml-1 px-1 rounded bg-gray-700 text-[10px] font-normal text-gray-400">{profile.inferredType}</span>
+                    )}
+                  </th>
+                );
+              })}
+            </tr>
+            <tr>
+              <th className="border-b border-gray-700" />
+              {columns.map((key) => {
+                const filter = view.filters[key];
+                return (
+                  <th key={key} className="px-3 py-1 border-b border-gray-700 font-normal">
+                    <div className="flex items-center gap-1">
+                      <input
+                        className="bg-gray-800 text-gray-100 rounded px-1 py-0.5 w-full min-w-[60px] focus:outline-none"
+                        placeholder="Filter"
+                        value={filter?.value ?? ''}
+                        onChange={e => handleFilterChange(key, { value: e.target.value })}
+                      />
+                      <button
+                        onClick={() => handleFilterChange(key, { hasError: !filter?.hasError })}
+                        className={filter?.hasError ? 'text-red-400' : 'text-gray-600 hover:text-gray-400'}
+                        title="Only rows with a validation error in this column"
+                      >
+                        ⚠
+                      </button>
+                    </div>
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }} />}
+            {rowIndices.slice(firstRow, lastRow).map((originalIndex, offset) => {
+              const position = firstRow + offset;
+              const row = data[originalIndex];
+              if (!row) return null;
+              const hasValidationErrors = errorIndex.byRow.has(originalIndex);
+              const isSearchResult = matchedRows.has(originalIndex);
+
+              return (
+                <tr
+                  key={originalIndex}
+                  id={`row-${originalIndex}`}
+                  style={{ height: ROW_HEIGHT }}
+                  className={`hover:bg-gray-800 transition-colors ${
+                    selectedRow === originalIndex ? 'bg-blue-900/30 border-l-4 border-l-blue-500' : ''
+                  } ${
+                    hasValidationErrors ? 'bg-red-900/20 border-l-4 border-l-red-500' : ''
+                  } ${
+                    isSearchResult ? 'bg-green-900/20 border-l-4 border-l-green-500' : ''
+                  }`}
+                >
+                  <td className="px-2 py-1 border-b border-gray-800 relative align-top text-gray-500 whitespace-nowrap">
+                    <button
+                      onClick={() => setRowMenu(rowMenu === originalIndex ? null : originalIndex)}
+                      className="hover:text-gray-200"
+                      title="Row actions"
+                    >
+                      {originalIndex + 1} ⋮
+                    </button>
+                    {rowMenu === originalIndex && (
+                      <div className="absolute left-full top-0 z-20 bg-gray-800 border border-gray-700 rounded py-1 w-40">
+                        {rowActions.map(({ action, label }) => (
+                          <button
+                            key={action}
+                            onClick={() => handleRowAction(action, originalIndex)}
+                            className={`block w-full text-left px-3 py-1 hover:bg-gray-700 ${action === 'delete' ? 'text-red-400' : 'text-gray-300'}`}
+                          >
+                            {label}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </td>
+                  {columns.map((key, col) => {
+                    const cellValidationErrors = errorIndex.byCell.get(cellKey(originalIndex, key)) ?? noErrors;
+                    const hasCellErrors = cellValidationErrors.length > 0;
+                    const cell = { row: position, col };
+
+                    return (
+                      <td
+                        key={key}
+                        className={`px-3 py-1 border-b border-gray-800 relative align-top ${
+                          isRangeSelected && inRange(range!, position, col) ? 'bg-blue-900/40' : ''
+                        }`}
+                        onMouseDown={e => handleCellMouseDown(e, cell)}
+                      >
+                        <div className="flex items-center gap-1 h-6">
+                          <input
+                            className={`bg-transparent text-gray-100 border-b w-full focus:outline-none ${
+                              rowErrors[originalIndex]?.[key] || hasCellErrors
+                                ? 'border-red-500'
+                                : 'border-gray-700'
+                            }`}
+                            value={typeof row[key] === 'object' && row[key] !== null ? JSON.stringify(row[key]) : row[key] ?? ''}
+                            onChange={(e) => {
+                              if (!frozenRows) setFrozenRows(rowIndices);
+                              onEdit(originalIndex, key, e.target.value);
+                            }}
+                            onBlur={handleCellBlur}
+                            data-cell={`${position}:${col}`}
+                            onFocus={() => handleCellFocus(cell)}
+                            onKeyDown={e => handleCellKeyDown(e, cell)}
+                            onCopy={handleCellCopy}
+                            onPaste={handleCellPaste}
+                            title={rowErrors[originalIndex]?.[key] || cellValidationErrors.map(e => e.message).join(', ') || ''}
+                          />
+                          {editorKinds[key] && (
+                            <button
+                              onClick={() => setEditingCell({ rowIndex: originalIndex, column: key })}
+                              className="text-gray-500 hover:text-blue-400"
+                              title={`Edit ${editorKinds[key] === 'phaseList' ? 'phases' : editorKinds[key] === 'json' ? 'JSON' : 'list'}`}
+                            >
+                              ✎
+                            </button>
+                          )}
+                        </div>
+                        {editingCell?.rowIndex === originalIndex && editingCell.column === key && (
+                          <div className="absolute left-0 top-full z-30 mt-1 w-72 bg-gray-800 border border-gray-600 rounded p-2 shadow-lg">
+                            {renderEditor(originalIndex, key)}
+                          </div>
+                        )}
+                        {(rowErrors[originalIndex]?.[key] || hasCellErrors) && (
+                          <div
+                            className="text-xs leading-4 h-4 text-red-400 mt-0.5 truncate max-w-[240px]"
+                            title={rowErrors[originalIndex]?.[key] || cellValidationErrors.map(e => e.message).join('\n')}
+                          >
+                            {rowErrors[originalIndex]?.[key] || cellValidationErrors[0]?.message}
+                            {cellValidationErrors.length > 1 && (
+                              <span className="text-gray-500 ml-1">(+{cellValidationErrors.length - 1} more)</span>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            {lastRow < rowIndices.length && <tr style={{ height: (rowIndices.length - lastRow) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { FindReplaceOptions, defaultFindReplaceOptions, findReplacements } from '@/lib/findReplace';
+import { CellPatch } from '@/lib/history';
+
+interface FindReplaceDialogProps {
+  data: any[];
+  onApply: (changes: CellPatch[], label: string) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_CELLS = 50;
+
+const formatValue = (value: any) => value === '' || value === undefined || value === null ? '∅' : String(value);
+
+export default function FindReplaceDialog({ data, onApply, onClose }: FindReplaceDialogProps) {
+  const [options, setOptions] = useState<FindReplaceOptions>(defaultFindReplaceOptions);
+  const columns = data.length > 0 ? Object.keys(data[0]) : [];
+  const { changes, error } = useMemo(() => findReplacements(data, options), [data, options]);
+
+  const update = (patch: Partial<FindReplaceOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const toggleColumn = (column: string) => {
+    update({
+      columns: options.columns.includes(column)
+        ? options.columns.filter(c => c !== column)
+        : [...options.columns, column]
+    });
+  };
+
+  const handleApply = () => {
+    const replacement = options.replace ? `"${options.replace}"` : 'nothing';
+    onApply(changes, `Replace "${options.find}" with ${replacement} (${changes.length} ${changes.length === 1 ? 'cell' : 'cells'})`);
+  };
+
+  return (
+    <div className="mt-4 bg-gray-900 rounded-lg border border-blue-700 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-200">🔁 Find and replace</h4>
+        <div className="flex gap-2">
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600"
+          >
+            Close
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={changes.length === 0}
+            className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:opacity-50"
+          >
+            Replace {changes.length} {changes.length === 1 ? 'cell' : 'cells'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3 text-sm">
+        <input
+          className="bg-gray-800 text-gray-100 rounded px-2 py-1 focus:outline-none font-mono"
+          placeholder={options.useRegex ? 'Regular expression' : 'Find'}
+          value={options.find}
+          onChange={e => update({ find: e.target.value })}
+        />
+        <input
+          className="bg-gray-800 text-gray-100 rounded px-2 py-1 focus:outline-none font-mono"
+          placeholder={options.useRegex ? 'Replace with ($1 for groups)' : 'Replace with'}
+          value={options.replace}
+          onChange={e => update({ replace: e.target.value })}
+        />
+      </div>
+
+      <div className="flex flex-wrap gap-4 text-xs text-gray-300">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={options.useRegex} onChange={e => update({ useRegex: e.target.checked })} />
+          Regex
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={options.caseSensitive} onChange={e => update({ caseSensitive: e.target.checked })} />
+          Match case
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="radio" checked={options.scope === 'cell'} onChange={() => update({ scope: 'cell' })} />
+          Whole cell
+        </label>
+        <label className="flex items-center gap-1" title="Matches one entry of a comma separated list, an empty replacement removes it">
+          <input type="radio" checked={options.scope === 'token'} onChange={() => update({ scope: 'token' })} />
+          List entries
+        </label>
+      </div>
+
+      <div className="text-xs">
+        <span className="text-gray-400">Columns {options.columns.length === 0 && '(all)'}: </span>
+        <div className="flex flex-wrap gap-1 mt-1">
+          {columns.map(column => (
+            <button
+              key={column}
+              onClick={() => toggleColumn(column)}
+              className={`px-2 py-0.5 rounded ${
+                options.columns.includes(column) ? 'bg-blue-600 text-white' : 'bg-gray-800 text-gray-400 hover:text-gray-200'
+              }`}
+            >
+              {column}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{error}</p>}
+
+      {options.find && !error && (
+        <div>
+          <h5 className="text-xs font-semibold text-gray-300 mb-1">Preview ({changes.length} cells)</h5>
+          {changes.length === 0 ? (
+            <p className="text-xs text-gray-500">No cells match.</p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto space-y-1">
+              {changes.slice(0, PREVIEW_CELLS).map(change => (
+                <div key={`${change.rowIndex}:${change.column}`} className="bg-gray-800 rounded px-2 py-1 text-xs">
+                  <span className="text-gray-400">Row {change.rowIndex + 1}, {change.column}: </span>
+                  <span className="text-red-300 line-through">{formatValue(change.before)}</span>
+                  <span className="text-gray-500"> → </span>
+                  <span className="text-green-300">{formatValue(change.after)}</span>
+                </div>
+              ))}
+              {changes.length > PREVIEW_CELLS && (
+                <p className="text-xs text-gray-500">…and {changes.length - PREVIEW_CELLS} more cells</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
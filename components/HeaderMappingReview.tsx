@@ -0,0 +1,147 @@
+import React, { useState, useEffect } from 'react';
+import { HeaderMapping } from '@/lib/headerMapping';
+import { ImportedSource } from '@/lib/dataImport';
+
+interface HeaderMappingReviewProps {
+  source: ImportedSource;
+  fields: string[];
+  onConfirm: (mapping: HeaderMapping[]) => void;
+  onCancel: () => void;
+  onForget: () => void;
+}
+
+const KEEP_ORIGINAL = '__keep__';
+const IGNORE_COLUMN = '__ignore__';
+
+export default function HeaderMappingReview({ source, fields, onConfirm, onCancel, onForget }: HeaderMappingReviewProps) {
+  const [mapping, setMapping] = useState<HeaderMapping[]>(source.mapping);
+
+  useEffect(() => {
+    setMapping(source.mapping);
+  }, [source]);
+
+  const sampleRow = source.rows[0] || {};
+
+  const fieldCounts = mapping.reduce((acc, m) => {
+    if (m.field && !m.ignored) acc[m.field] = (acc[m.field] || 0) + 1;
+    return acc;
+  }, {} as Record<string, number>);
+  const duplicateFields = Object.keys(fieldCounts).filter(field => fieldCounts[field] > 1);
+  const unmappedFields = fields.filter(field => !fieldCounts[field]);
+  const isRemembered = source.mapping.some(m => m.fromMemory);
+
+  const handleChange = (header: string, value: string) => {
+    setMapping(prev => prev.map(m => {
+      if (m.header !== header) return m;
+      if (value === IGNORE_COLUMN) return { ...m, field: null, ignored: true, confidence: 1, fromMemory: false };
+      if (value === KEEP_ORIGINAL) return { ...m, field: null, ignored: false, confidence: 1, fromMemory: false };
+      // A field picked by the user is as certain as an exact match
+      return { ...m, field: value, ignored: false, confidence: 1, fromMemory: false };
+    }));
+  };
+
+  const getConfidenceColor = (confidence: number) => {
+    if (confidence >= 0.9) return 'text-green-400';
+    if (confidence >= 0.7) return 'text-yellow-400';
+    return 'text-red-400';
+  };
+
+  const getSelectValue = (m: HeaderMapping) => {
+    if (m.ignored) return IGNORE_COLUMN;
+    return m.field ?? KEEP_ORIGINAL;
+  };
+
+  return (
+    <div className="w-full bg-gray-900 rounded-lg border border-blue-700 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-200">🧭 Review Column Mapping</h4>
+          <p className="text-xs text-gray-400 mt-1">
+            {source.source} • detected as <span className="text-green-400">{source.entity}</span>
+            {isRemembered && <span className="text-purple-300"> • mapping recalled from a previous upload</span>}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          {isRemembered && (
+            <button
+              onClick={onForget}
+              className="px-3 py-1 bg-purple-900/40 text-purple-200 rounded text-sm hover:bg-purple-900/60"
+            >
+              Forget Remembered Mapping
+            </button>
+          )}
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm(mapping)}
+            disabled={duplicateFields.length > 0}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Confirm Mapping
+          </button>
+        </div>
+      </div>
+
+      <table className="min-w-full text-xs text-left text-gray-300">
+        <thead>
+          <tr>
+            <th className="px-3 py-2 border-b border-gray-700 font-semibold">Uploaded Header</th>
+            <th className="px-3 py-2 border-b border-gray-700 font-semibold">Sample Value</th>
+            <th className="px-3 py-2 border-b border-gray-700 font-semibold">Maps To</th>
+            <th className="px-3 py-2 border-b border-gray-700 font-semibold">Confidence</th>
+          </tr>
+        </thead>
+        <tbody>
+          {mapping.map(m => (
+            <tr key={m.header} className={m.ignored ? 'opacity-50' : ''}>
+              <td className="px-3 py-2 border-b border-gray-800 font-mono">
+                {m.header}
+                {m.fromMemory && (
+                  <span className="ml-2 text-xs px-1 rounded text-purple-300 bg-purple-900/30" title="Applied from a mapping you confirmed before">
+                    memory
+                  </span>
+                )}
+              </td>
+              <td className="px-3 py-2 border-b border-gray-800 text-gray-500 truncate max-w-[200px]">
+                {String(sampleRow[m.header] ?? '')}
+              </td>
+              <td className="px-3 py-2 border-b border-gray-800">
+                <select
+                  value={getSelectValue(m)}
+                  onChange={e => handleChange(m.header, e.target.value)}
+                  className={`bg-gray-700 text-gray-100 rounded px-2 py-1 ${
+                    m.field && duplicateFields.includes(m.field) ? 'border border-red-500' : ''
+                  }`}
+                >
+                  {fields.map(field => (
+                    <option key={field} value={field}>{field}</option>
+                  ))}
+                  <option value={KEEP_ORIGINAL}>Keep original name</option>
+                  <option value={IGNORE_COLUMN}>Ignore column</option>
+                </select>
+              </td>
+              <td className={`px-3 py-2 border-b border-gray-800 ${getConfidenceColor(m.confidence)}`}>
+                {m.ignored || (!m.field && m.confidence === 1) ? '—' : `${Math.round(m.confidence * 100)}%`}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {duplicateFields.length > 0 && (
+        <div className="text-xs text-red-400">
+          Each field can only be mapped once: {duplicateFields.join(', ')}
+        </div>
+      )}
+      {unmappedFields.length > 0 && (
+        <div className="text-xs text-yellow-300">
+          Fields without a column: {unmappedFields.join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import React from 'react';
+import { HistoryEntry } from '@/lib/history';
+
+interface HistoryPanelProps {
+  history: HistoryEntry[];
+  position: number;
+  entityLabel: (entity: string) => string;
+  onJump: (position: number) => void;
+  onClose: () => void;
+}
+
+const patchSize = (entry: HistoryEntry) =>
+  entry.patch.kind === 'cells'
+    ? `${entry.patch.changes.length} ${entry.patch.changes.length === 1 ? 'cell' : 'cells'}`
+    : `+${entry.patch.added.length} / −${entry.patch.removed.length} rows`;
+
+export default function HistoryPanel({ history, position, entityLabel, onJump, onClose }: HistoryPanelProps) {
+  // Position 0 is the state before the first recorded change
+  const steps = [{ label: 'Initial state', detail: '' }, ...history.map(entry => ({
+    label: entry.label,
+    detail: `${entityLabel(entry.entity)} • ${patchSize(entry)}`
+  }))];
+
+  return (
+    <div className="mt-4 bg-gray-900 rounded-lg border border-gray-700 p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-gray-200">🕘 Edit history</h4>
+        <div className="flex gap-2">
+          <button
+            onClick={() => onJump(position - 1)}
+            disabled={position === 0}
+            className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600 disabled:opacity-50"
+            title="Ctrl+Z"
+          >
+            Undo
+          </button>
+          <button
+            onClick={() => onJump(position + 1)}
+            disabled={position === history.length}
+            className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600 disabled:opacity-50"
+            title="Ctrl+Y"
+          >
+            Redo
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+      <ol className="text-xs max-h-64 overflow-y-auto space-y-1">
+        {steps.map((step, idx) => (
+          <li key={idx}>
+            <button
+              onClick={() => onJump(idx)}
+              className={`w-full flex justify-between gap-4 text-left px-2 py-1 rounded ${
+                idx === position
+                  ? 'bg-blue-900/40 text-blue-200 border-l-4 border-l-blue-500'
+                  : idx > position
+                    ? 'text-gray-500 hover:bg-gray-800'
+                    : 'text-gray-300 hover:bg-gray-800'
+              }`}
+            >
+              <span>{step.label}</span>
+              <span className="text-gray-500">{step.detail}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
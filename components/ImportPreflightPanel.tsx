@@ -0,0 +1,61 @@
+import React from 'react';
+import { CsvPreflight, CsvParseOptions } from '@/lib/csvPreflight';
+import { SheetPreview, SheetLayout } from '@/lib/sheetLayout';
+import CsvPreflightCard from './CsvPreflightCard';
+import SheetLayoutCard from './SheetLayoutCard';
+
+interface ImportPreflightPanelProps {
+  csvPreflights: CsvPreflight[];
+  sheetPreviews: SheetPreview[];
+  onCsvOptionsChange: (fileId: string, options: CsvParseOptions) => void;
+  onSheetLayoutChange: (fileId: string, sheetName: string, layout: SheetLayout) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export default function ImportPreflightPanel({
+  csvPreflights,
+  sheetPreviews,
+  onCsvOptionsChange,
+  onSheetLayoutChange,
+  onConfirm,
+  onCancel
+}: ImportPreflightPanelProps) {
+  if (csvPreflights.length === 0 && sheetPreviews.length === 0) return null;
+
+  return (
+    <div className="mt-4 w-full max-w-4xl bg-gray-900 rounded-lg border border-blue-700 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-200">🔎 Import Settings</h4>
+          <p className="text-xs text-gray-400 mt-1">Check the detected settings against the preview before parsing.</p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onConfirm}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+
+      {csvPreflights.map(preflight => (
+        <CsvPreflightCard key={preflight.fileId} preflight={preflight} onOptionsChange={onCsvOptionsChange} />
+      ))}
+      {sheetPreviews.map(preview => (
+        <SheetLayoutCard
+          key={`${preview.fileId}/${preview.sheetName}`}
+          preview={preview}
+          onLayoutChange={onSheetLayoutChange}
+        />
+      ))}
+    </div>
+  );
+}
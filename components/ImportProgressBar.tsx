@@ -0,0 +1,43 @@
+import React from 'react';
+import { ImportProgress } from '@/lib/streamingImport';
+
+interface ImportProgressBarProps {
+  progress: ImportProgress;
+  onCancel: () => void;
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+export default function ImportProgressBar({ progress, onCancel }: ImportProgressBarProps) {
+  const percent = progress.totalBytes > 0 ? Math.round((progress.bytesRead / progress.totalBytes) * 100) : 0;
+
+  return (
+    <div className="mt-4 w-full max-w-xl bg-gray-900 rounded-lg border border-gray-700 p-4 space-y-2">
+      <div className="flex justify-between items-center text-sm">
+        <span className="text-gray-200 truncate flex-1">
+          Parsing {progress.fileName}
+          {progress.fileCount > 1 && (
+            <span className="text-gray-500"> ({progress.fileIndex + 1} of {progress.fileCount})</span>
+          )}
+        </span>
+        <button
+          onClick={onCancel}
+          className="ml-3 px-3 py-1 bg-red-600 text-white rounded text-xs hover:bg-red-700"
+        >
+          Cancel
+        </button>
+      </div>
+      <div className="w-full h-2 bg-gray-700 rounded">
+        <div className="h-2 bg-blue-500 rounded transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="flex justify-between text-xs text-gray-400">
+        <span>{progress.rowsParsed.toLocaleString()} rows parsed</span>
+        <span>{formatBytes(progress.bytesRead)} of {formatBytes(progress.totalBytes)}</span>
+      </div>
+    </div>
+  );
+}
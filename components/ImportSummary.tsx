@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { ImportedSource, EntityType, SourceChoices, findEntityConflicts, resolveSources } from '@/lib/dataImport';
+import { SchemaRegistry } from '@/lib/schemas';
+
+interface ImportSummaryProps {
+  sources: ImportedSource[];
+  choices: SourceChoices;
+  schemas: SchemaRegistry;
+  onChoiceChange: (entity: EntityType, sourceId: string) => void;
+  onAssignEntity: (sourceId: string, entity: EntityType) => void;
+  onCreateCustomEntity: (sourceId: string, label: string) => void;
+  onReviewMapping: (sourceId: string) => void;
+}
+
+const NEW_CUSTOM_ENTITY = '__new__';
+
+export default function ImportSummary({
+  sources,
+  choices,
+  schemas,
+  onChoiceChange,
+  onAssignEntity,
+  onCreateCustomEntity,
+  onReviewMapping
+}: ImportSummaryProps) {
+  const [customSource, setCustomSource] = useState<string | null>(null);
+  const [customLabel, setCustomLabel] = useState('');
+
+  if (sources.length === 0) return null;
+
+  const conflicts = findEntityConflicts(sources);
+  const resolved = resolveSources(sources, choices);
+  const isUsed = (source: ImportedSource) => !!source.entity && resolved[source.entity]?.id === source.id;
+  const entityLabel = (entity: EntityType) => schemas[entity]?.label ?? entity;
+
+  const handleSelect = (source: ImportedSource, value: string) => {
+    if (value === NEW_CUSTOM_ENTITY) {
+      setCustomSource(source.id);
+      setCustomLabel(source.file?.sheetName ?? source.source.replace(/\.[^.]+$/, ''));
+    } else if (value) {
+      onAssignEntity(source.id, value as EntityType);
+    }
+  };
+
+  const handleCreateCustom = () => {
+    if (!customSource || !customLabel.trim()) return;
+    onCreateCustomEntity(customSource, customLabel.trim());
+    setCustomSource(null);
+    setCustomLabel('');
+  };
+
+  return (
+    <div className="mt-4 w-full max-w-xl space-y-3">
+      <div className="bg-gray-900 rounded-lg border border-gray-700 p-4">
+        <h4 className="text-sm font-semibold text-gray-200 mb-3">Imported Sources</h4>
+        <div className="space-y-2">
+          {sources.map((source) => (
+            <div key={source.id}>
+              <div className="flex justify-between items-center text-sm">
+                <span className={`truncate flex-1 ${isUsed(source) ? 'text-gray-200' : 'text-gray-500'}`}>
+                  {source.source}
+                </span>
+                {source.entity || source.rowCount === 0 ? (
+                  <span className={`ml-2 ${source.entity ? 'text-green-400' : 'text-yellow-400'}`}>
+                    {source.entity ? entityLabel(source.entity) : 'Unclassified'}
+                  </span>
+                ) : (
+                  <select
+                    value=""
+                    onChange={e => handleSelect(source, e.target.value)}
+                    className="ml-2 bg-gray-700 text-yellow-300 rounded px-2 py-1 text-xs"
+                  >
+                    <option value="">Select entity</option>
+                    {(Object.keys(schemas) as EntityType[]).map(entity => (
+                      <option key={entity} value={entity}>{entityLabel(entity)}</option>
+                    ))}
+                    <option value={NEW_CUSTOM_ENTITY}>➕ New custom entity…</option>
+                  </select>
+                )}
+                <span className="text-gray-400 ml-4 w-20 text-right">{source.rowCount} rows</span>
+                {source.entity && (
+                  <button
+                    onClick={() => onReviewMapping(source.id)}
+                    className={`ml-3 text-xs ${source.mappingConfirmed ? 'text-blue-400 hover:text-blue-300' : 'text-yellow-400 hover:text-yellow-300'}`}
+                  >
+                    {source.mappingConfirmed
+                      ? (source.mapping.some(m => m.fromMemory) ? 'Mapping (remembered)' : 'Mapping')
+                      : 'Review mapping'}
+                  </button>
+                )}
+              </div>
+
+              {/* Detection candidates */}
+              {!source.entity && source.candidates && source.candidates.length > 0 && customSource !== source.id && (
+                <div className="mt-2 ml-2 space-y-1">
+                  {source.candidates.map(candidate => (
+                    <button
+                      key={candidate.entity}
+                      onClick={() => onAssignEntity(source.id, candidate.entity)}
+                      className="block w-full text-left text-xs bg-gray-800 hover:bg-gray-700 rounded px-2 py-1"
+                    >
+                      <span className="text-blue-300">{entityLabel(candidate.entity)}</span>
+                      <span className="text-gray-500 ml-2">score {candidate.score}</span>
+                      <span className="text-gray-400 ml-2">
+                        {candidate.matches.map(m => m.header === m.field ? m.header : `${m.header} → ${m.field}`).join(', ')}
+                      </span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* New custom entity */}
+              {customSource === source.id && (
+                <div className="mt-2 ml-2 flex items-center gap-2">
+                  <input
+                    value={customLabel}
+                    onChange={e => setCustomLabel(e.target.value)}
+                    onKeyDown={e => e.key === 'Enter' && handleCreateCustom()}
+                    placeholder="Entity name, e.g. Projects"
+                    className="flex-1 bg-gray-700 text-gray-100 rounded px-2 py-1 text-xs"
+                    autoFocus
+                  />
+                  <button
+                    onClick={handleCreateCustom}
+                    disabled={!customLabel.trim()}
+                    className="px-3 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    Create
+                  </button>
+                  <button
+                    onClick={() => setCustomSource(null)}
+                    className="px-3 py-1 bg-gray-700 text-white rounded text-xs hover:bg-gray-600"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+        {sources.some(source => source.note) && (
+          <ul className="mt-3 text-xs text-yellow-300 space-y-1">
+            {sources.filter(source => source.note).map(source => (
+              <li key={source.id}>• {source.source}: {source.note}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Conflicts */}
+      {Object.keys(conflicts).length > 0 && (
+        <div className="bg-yellow-900/20 border border-yellow-700 rounded-lg p-4">
+          <h4 className="text-sm font-semibold text-yellow-300 mb-3">⚠️ Conflicting Sources</h4>
+          <div className="space-y-2">
+            {(Object.keys(conflicts) as EntityType[]).map(entity => (
+              <div key={entity} className="flex items-center gap-2 text-sm">
+                <span className="text-yellow-200 w-16">{entityLabel(entity)}</span>
+                <select
+                  value={resolved[entity]?.id ?? ''}
+                  onChange={e => onChoiceChange(entity, e.target.value)}
+                  className="bg-gray-700 text-gray-100 rounded px-2 py-1 flex-1"
+                >
+                  {conflicts[entity]!.map(source => (
+                    <option key={source.id} value={source.id}>{source.source}</option>
+                  ))}
+                </select>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-yellow-200 mt-2">
+            Several sources were detected as the same entity. Pick the one to use.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
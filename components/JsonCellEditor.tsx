@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { JsonEntry, checkJsonSyntax, fromJsonEntries, toJsonEntries } from '@/lib/cellEditors';
+
+interface JsonCellEditorProps {
+  value: any;
+  onSave: (value: string) => void;
+  onCancel: () => void;
+}
+
+const toText = (value: any) => value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value);
+
+export default function JsonCellEditor({ value, onSave, onCancel }: JsonCellEditorProps) {
+  const initialEntries = toJsonEntries(value);
+  // Cells that are not a JSON object, or not JSON at all, open as raw text
+  const [rawMode, setRawMode] = useState(initialEntries === null);
+  const [entries, setEntries] = useState<JsonEntry[]>(initialEntries ?? []);
+  const [raw, setRaw] = useState(() => toText(value));
+  const syntaxError = rawMode && raw.trim() !== '' ? checkJsonSyntax(raw) : null;
+  const keys = entries.map(entry => entry.key.trim()).filter(Boolean);
+  const duplicateKey = keys.find((key, idx) => keys.indexOf(key) !== idx);
+
+  const updateEntry = (index: number, changes: Partial<JsonEntry>) => {
+    setEntries(entries.map((entry, idx) => idx === index ? { ...entry, ...changes } : entry));
+  };
+
+  const switchMode = () => {
+    if (rawMode) {
+      const parsed = toJsonEntries(raw);
+      if (parsed === null) return;
+      setEntries(parsed);
+    } else {
+      setRaw(entries.length > 0 ? JSON.stringify(JSON.parse(fromJsonEntries(entries)), null, 2) : '');
+    }
+    setRawMode(!rawMode);
+  };
+
+  const handleSave = () => {
+    if (rawMode) onSave(raw.trim());
+    else onSave(entries.some(entry => entry.key.trim()) ? fromJsonEntries(entries) : '');
+  };
+
+  return (
+    <div className="space-y-2">
+      {rawMode ? (
+        <textarea
+          autoFocus
+          rows={6}
+          className="w-full bg-gray-700 text-gray-100 rounded px-2 py-1 focus:outline-none font-mono"
+          value={raw}
+          onChange={e => setRaw(e.target.value)}
+          onKeyDown={e => e.key === 'Escape' && onCancel()}
+        />
+      ) : (
+        <div className="space-y-1">
+          {entries.map((entry, idx) => (
+            <div key={idx} className="flex gap-1">
+              <input
+                className="w-1/3 bg-gray-700 text-gray-100 rounded px-2 py-0.5 focus:outline-none font-mono"
+                placeholder="key"
+                value={entry.key}
+                onChange={e => updateEntry(idx, { key: e.target.value })}
+              />
+              <input
+                className="flex-1 bg-gray-700 text-gray-100 rounded px-2 py-0.5 focus:outline-none font-mono"
+                placeholder="value"
+                value={entry.value}
+                onChange={e => updateEntry(idx, { value: e.target.value })}
+              />
+              <button onClick={() => setEntries(entries.filter((_, i) => i !== idx))} className="text-gray-500 hover:text-red-400">
+                ✕
+              </button>
+            </div>
+          ))}
+          <button onClick={() => setEntries([...entries, { key: '', value: '' }])} className="text-blue-400 hover:text-blue-300">
+            + Add key
+          </button>
+        </div>
+      )}
+      {syntaxError && <p className="text-red-400">{syntaxError}</p>}
+      {duplicateKey && !rawMode && <p className="text-red-400">Duplicate key: {duplicateKey}</p>}
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={switchMode}
+          disabled={rawMode && (!!syntaxError || toJsonEntries(raw) === null)}
+          className="text-gray-400 hover:text-gray-200 disabled:opacity-50"
+          title={rawMode ? 'Only JSON objects can be edited as keys and values' : undefined}
+        >
+          {rawMode ? 'Edit as keys' : 'Edit raw JSON'}
+        </button>
+        <div className="flex gap-2">
+          <button onClick={onCancel} className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={!!syntaxError || (!!duplicateKey && !rawMode)}
+            className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
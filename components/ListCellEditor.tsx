@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { formatListValue, parseListValue } from '@/lib/cellEditors';
+
+interface ListCellEditorProps {
+  value: any;
+  suggestions: string[];
+  onSave: (value: string) => void;
+  onCancel: () => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+export default function ListCellEditor({ value, suggestions, onSave, onCancel }: ListCellEditorProps) {
+  const [chips, setChips] = useState<string[]>(() => parseListValue(value));
+  const [draft, setDraft] = useState('');
+
+  const query = draft.trim().toLowerCase();
+  const matches = suggestions
+    .filter(suggestion => !chips.includes(suggestion) && suggestion.toLowerCase().includes(query))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const addChip = (chip: string) => {
+    const text = chip.trim();
+    if (text && !chips.includes(text)) setChips([...chips, text]);
+    setDraft('');
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      if (draft.trim()) addChip(draft);
+      else if (e.key === 'Enter') onSave(formatListValue(chips));
+    } else if (e.key === 'Backspace' && !draft && chips.length > 0) {
+      setChips(chips.slice(0, -1));
+    } else if (e.key === 'Escape') {
+      onCancel();
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {chips.map(chip => (
+          <span key={chip} className="flex items-center gap-1 px-2 py-0.5 rounded bg-blue-900/50 text-blue-200">
+            {chip}
+            <button onClick={() => setChips(chips.filter(c => c !== chip))} className="text-blue-300 hover:text-red-400">
+              ✕
+            </button>
+          </span>
+        ))}
+        <input
+          autoFocus
+          className="flex-1 min-w-[80px] bg-gray-700 text-gray-100 rounded px-2 py-0.5 focus:outline-none"
+          placeholder="Add…"
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+      </div>
+      {matches.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {matches.map(match => (
+            <button
+              key={match}
+              onClick={() => addChip(match)}
+              className="px-2 py-0.5 rounded bg-gray-700 text-gray-300 hover:bg-gray-600"
+            >
+              + {match}
+            </button>
+          ))}
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600">
+          Cancel
+        </button>
+        <button
+          onClick={() => onSave(formatListValue(draft.trim() ? [...chips, draft.trim()] : chips))}
+          className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+        >
+          Save
+        </button>
+      </div>
+    </div>
+  );
+}
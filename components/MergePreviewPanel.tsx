@@ -0,0 +1,174 @@
+import React, { useState } from 'react';
+import { MergePreview, ConflictChoice, conflictKey } from '@/lib/mergeImport';
+
+interface MergePreviewPanelProps {
+  preview: MergePreview;
+  source: string;
+  entityLabel: string;
+  onApply: (choices: Record<string, ConflictChoice>, removeMissing: boolean) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+const formatValue = (value: any) => value === '' || value === undefined || value === null ? '∅' : String(value);
+
+export default function MergePreviewPanel({ preview, source, entityLabel, onApply, onCancel }: MergePreviewPanelProps) {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [removeMissing, setRemoveMissing] = useState(false);
+
+  const conflicts = preview.updates.flatMap(update =>
+    update.changes.filter(change => change.conflict).map(change => conflictKey(update.id, change.column))
+  );
+  const fieldUpdates = preview.updates.reduce((sum, update) => sum + update.changes.filter(change => !change.conflict).length, 0);
+  const insertColumns = preview.inserts.length > 0 ? Object.keys(preview.inserts[0]) : [];
+
+  const setAll = (choice: ConflictChoice) => {
+    setChoices(Object.fromEntries(conflicts.map(key => [key, choice])));
+  };
+
+  return (
+    <div className="mt-4 w-full max-w-4xl bg-gray-900 rounded-lg border border-blue-700 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-200">🔀 Merge into {entityLabel}</h4>
+          <p className="text-xs text-gray-400 mt-1">
+            {source} • matched by <span className="font-mono">{preview.idColumn}</span>
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={() => onApply(choices, removeMissing)}
+            className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+          >
+            Apply Merge
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-center text-xs">
+        <div className="bg-gray-800 rounded p-2"><div className="text-lg text-green-400">{preview.inserts.length}</div>new rows</div>
+        <div className="bg-gray-800 rounded p-2"><div className="text-lg text-blue-400">{fieldUpdates}</div>field updates</div>
+        <div className="bg-gray-800 rounded p-2"><div className="text-lg text-yellow-400">{conflicts.length}</div>conflicts</div>
+        <div className="bg-gray-800 rounded p-2"><div className="text-lg text-red-400">{preview.missing.length}</div>missing from file</div>
+        <div className="bg-gray-800 rounded p-2"><div className="text-lg text-gray-300">{preview.unchangedCount}</div>unchanged</div>
+      </div>
+
+      {(preview.newColumns.length > 0 || preview.skippedCount > 0) && (
+        <div className="text-xs text-yellow-300 space-y-1">
+          {preview.newColumns.length > 0 && <div>New columns added to every row: {preview.newColumns.join(', ')}</div>}
+          {preview.skippedCount > 0 && <div>{preview.skippedCount} incoming rows skipped for an empty or repeated ID</div>}
+        </div>
+      )}
+
+      {/* Updates and conflicts */}
+      {preview.updates.length > 0 && (
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <h5 className="text-xs font-semibold text-gray-300">Updated rows</h5>
+            {conflicts.length > 0 && (
+              <div className="flex gap-2 text-xs">
+                <button onClick={() => setAll('local')} className="text-blue-400 hover:text-blue-300">Keep all local edits</button>
+                <button onClick={() => setAll('incoming')} className="text-blue-400 hover:text-blue-300">Take all incoming</button>
+              </div>
+            )}
+          </div>
+          <div className="max-h-64 overflow-y-auto space-y-2">
+            {preview.updates.map(update => (
+              <div key={update.id} className="bg-gray-800 rounded p-2 text-xs">
+                <div className="text-gray-200 font-mono mb-1">{update.id} <span className="text-gray-500">(row {update.rowIndex + 1})</span></div>
+                {update.changes.map(change => {
+                  const key = conflictKey(update.id, change.column);
+                  const choice = choices[key] ?? 'local';
+                  return (
+                    <div key={change.column} className="flex items-center gap-2 ml-2">
+                      <span className="text-gray-400 w-32 truncate">{change.column}</span>
+                      {change.conflict ? (
+                        <>
+                          <label className={`flex items-center gap-1 ${choice === 'local' ? 'text-yellow-300' : 'text-gray-500'}`}>
+                            <input
+                              type="radio"
+                              checked={choice === 'local'}
+                              onChange={() => setChoices(prev => ({ ...prev, [key]: 'local' }))}
+                            />
+                            local: {formatValue(change.local)}
+                          </label>
+                          <label className={`flex items-center gap-1 ${choice === 'incoming' ? 'text-green-300' : 'text-gray-500'}`}>
+                            <input
+                              type="radio"
+                              checked={choice === 'incoming'}
+                              onChange={() => setChoices(prev => ({ ...prev, [key]: 'incoming' }))}
+                            />
+                            incoming: {formatValue(change.incoming)}
+                          </label>
+                        </>
+                      ) : (
+                        <span>
+                          <span className="text-red-300 line-through">{formatValue(change.local)}</span>
+                          <span className="text-gray-500"> → </span>
+                          <span className="text-green-300">{formatValue(change.incoming)}</span>
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Inserts */}
+      {preview.inserts.length > 0 && (
+        <div>
+          <h5 className="text-xs font-semibold text-gray-300 mb-2">New rows</h5>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs text-left text-gray-300">
+              <thead>
+                <tr>
+                  {insertColumns.map(column => (
+                    <th key={column} className="px-2 py-1 border-b border-gray-700 font-semibold whitespace-nowrap">{column}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.inserts.slice(0, PREVIEW_ROWS).map((row, rowIdx) => (
+                  <tr key={rowIdx}>
+                    {insertColumns.map(column => (
+                      <td key={column} className="px-2 py-1 border-b border-gray-800 whitespace-nowrap truncate max-w-[200px]">{row[column]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {preview.inserts.length > PREVIEW_ROWS && (
+            <p className="text-xs text-gray-500 mt-1">…and {preview.inserts.length - PREVIEW_ROWS} more</p>
+          )}
+        </div>
+      )}
+
+      {/* Missing */}
+      {preview.missing.length > 0 && (
+        <div className="text-xs">
+          <h5 className="font-semibold text-gray-300 mb-1">Not in the incoming file</h5>
+          <p className="text-gray-400 font-mono truncate">{preview.missing.map(m => m.id).join(', ')}</p>
+          <label className="flex items-center gap-2 mt-2 text-gray-300">
+            <input
+              type="checkbox"
+              checked={removeMissing}
+              onChange={e => setRemoveMissing(e.target.checked)}
+            />
+            Remove these {preview.missing.length} rows from the table
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
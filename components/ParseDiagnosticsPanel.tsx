@@ -0,0 +1,101 @@
+import React from 'react';
+import { ImportedSource } from '@/lib/dataImport';
+import { ParseDiagnostic, parseProblemLabels } from '@/lib/parseDiagnostics';
+
+interface ParseDiagnosticsPanelProps {
+  sources: ImportedSource[];
+  onResolve: (sourceId: string, id: number, accept: boolean) => void;
+  onResolveAll: (sourceId: string, accept: boolean) => void;
+}
+
+function formatRepair(diagnostic: ParseDiagnostic): string {
+  return diagnostic.repair.map(row => Object.values(row).join(' | ')).join('\n');
+}
+
+export default function ParseDiagnosticsPanel({ sources, onResolve, onResolveAll }: ParseDiagnosticsPanelProps) {
+  const withDiagnostics = sources.filter(source => source.diagnostics && source.diagnostics.length > 0);
+  if (withDiagnostics.length === 0) return null;
+
+  return (
+    <div className="mt-4 w-full max-w-4xl bg-gray-900 rounded-lg border border-red-700 p-4 space-y-4">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-200">🩺 Parse Diagnostics</h4>
+        <p className="text-xs text-gray-400 mt-1">
+          These lines could not be parsed cleanly and were kept out of the table. Accept the proposed repair or drop each line.
+        </p>
+      </div>
+
+      {withDiagnostics.map(source => (
+        <div key={source.id} className="space-y-2">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-200">
+              {source.source}
+              <span className="text-red-400 ml-2">{source.diagnostics!.length} malformed line{source.diagnostics!.length !== 1 ? 's' : ''}</span>
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onResolveAll(source.id, true)}
+                className="px-3 py-1 bg-green-600 text-white rounded text-xs hover:bg-green-700"
+              >
+                Accept All Repairs
+              </button>
+              <button
+                onClick={() => onResolveAll(source.id, false)}
+                className="px-3 py-1 bg-gray-700 text-white rounded text-xs hover:bg-gray-600"
+              >
+                Drop All
+              </button>
+            </div>
+          </div>
+
+          <table className="min-w-full text-xs text-left text-gray-300">
+            <thead>
+              <tr>
+                <th className="px-3 py-2 border-b border-gray-700 font-semibold">Line</th>
+                <th className="px-3 py-2 border-b border-gray-700 font-semibold">Raw Text</th>
+                <th className="px-3 py-2 border-b border-gray-700 font-semibold">Problem</th>
+                <th className="px-3 py-2 border-b border-gray-700 font-semibold">Proposed Repair</th>
+                <th className="px-3 py-2 border-b border-gray-700"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {source.diagnostics!.map(diagnostic => (
+                <tr key={diagnostic.id} className="align-top">
+                  <td className="px-3 py-2 border-b border-gray-800 text-gray-500">{diagnostic.line}</td>
+                  <td className="px-3 py-2 border-b border-gray-800 font-mono max-w-[280px]">
+                    <div className="truncate" title={diagnostic.raw}>{diagnostic.raw}</div>
+                  </td>
+                  <td className="px-3 py-2 border-b border-gray-800">
+                    <div className="text-red-400">{parseProblemLabels[diagnostic.problem]}</div>
+                    <div className="text-gray-500">{diagnostic.message}</div>
+                  </td>
+                  <td className="px-3 py-2 border-b border-gray-800 max-w-[280px]">
+                    <div className="text-yellow-300">{diagnostic.repairNote}</div>
+                    <div className="font-mono text-gray-400 truncate whitespace-pre-line" title={formatRepair(diagnostic)}>
+                      {formatRepair(diagnostic)}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 border-b border-gray-800 text-right whitespace-nowrap">
+                    <button
+                      onClick={() => onResolve(source.id, diagnostic.id, true)}
+                      disabled={diagnostic.repair.length === 0}
+                      className="text-green-400 hover:text-green-300 disabled:opacity-40 mr-3"
+                    >
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => onResolve(source.id, diagnostic.id, false)}
+                      className="text-red-400 hover:text-red-300"
+                    >
+                      Drop
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ))}
+    </div>
+  );
+}
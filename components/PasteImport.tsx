@@ -0,0 +1,128 @@
+import React from 'react';
+import { EntityType, detectEntity } from '@/lib/dataImport';
+import { SchemaRegistry } from '@/lib/schemas';
+import { PastedTable, getPastedHeaders, pastedToRows, alignPastedColumns } from '@/lib/clipboardImport';
+
+interface PasteImportProps {
+  table: PastedTable | null;
+  schemas: SchemaRegistry;
+  activeEntity: EntityType | null;
+  targetColumns: string[];
+  onPaste: (e: React.ClipboardEvent) => void;
+  onHeaderToggle: (hasHeader: boolean) => void;
+  onCreateTable: () => void;
+  onAppend: () => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export default function PasteImport({
+  table,
+  schemas,
+  activeEntity,
+  targetColumns,
+  onPaste,
+  onHeaderToggle,
+  onCreateTable,
+  onAppend,
+  onCancel
+}: PasteImportProps) {
+  if (!table) {
+    return (
+      <div
+        tabIndex={0}
+        onPaste={onPaste}
+        className="mt-4 w-full max-w-xl border-2 border-dashed border-gray-700 rounded-lg p-4 text-center text-sm text-gray-500 focus:outline-none focus:border-blue-500 focus:text-gray-300 cursor-text"
+      >
+        📋 Click here and press Ctrl+V to paste rows copied from a spreadsheet
+      </div>
+    );
+  }
+
+  const headers = getPastedHeaders(table);
+  const rows = pastedToRows(table);
+  const detected = table.hasHeader ? detectEntity(headers, schemas) : null;
+  const alignment = activeEntity && targetColumns.length > 0 ? alignPastedColumns(table, targetColumns, activeEntity, schemas) : null;
+  const matchedCount = alignment ? Object.keys(alignment.columns).length : 0;
+
+  return (
+    <div className="mt-4 w-full max-w-4xl bg-gray-900 rounded-lg border border-blue-700 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-200">📋 Pasted Rows</h4>
+          <p className="text-xs text-gray-400 mt-1">
+            {rows.length} rows • {headers.length} columns
+            {table.hasHeader && (
+              <> • detected as <span className={detected ? 'text-green-400' : 'text-yellow-400'}>{detected ?? 'unclassified'}</span></>
+            )}
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onCancel}
+            className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={onCreateTable}
+            className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+          >
+            Create New Table
+          </button>
+          <button
+            onClick={onAppend}
+            disabled={!alignment || matchedCount === 0}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Append to {activeEntity ? schemas[activeEntity].label : 'Current Table'}
+          </button>
+        </div>
+      </div>
+
+      <label className="flex items-center gap-2 text-xs text-gray-300">
+        <input
+          type="checkbox"
+          checked={table.hasHeader}
+          onChange={e => onHeaderToggle(e.target.checked)}
+        />
+        First row is a header
+      </label>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs text-left text-gray-300">
+          <thead>
+            <tr>
+              {headers.map(header => (
+                <th key={header} className="px-2 py-1 border-b border-gray-700 font-semibold whitespace-nowrap">
+                  {header}
+                  {alignment?.columns[header] && alignment.columns[header] !== header && (
+                    <span className="text-blue-400 font-normal"> → {alignment.columns[header]}</span>
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, PREVIEW_ROWS).map((row, rowIdx) => (
+              <tr key={rowIdx}>
+                {headers.map(header => (
+                  <td key={header} className="px-2 py-1 border-b border-gray-800 whitespace-nowrap truncate max-w-[200px]">
+                    {row[header]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {alignment && alignment.unmatched.length > 0 && (
+        <div className="text-xs text-yellow-300">
+          Not in the current table, dropped when appending: {alignment.unmatched.join(', ')}
+        </div>
+      )}
+    </div>
+  );
+}
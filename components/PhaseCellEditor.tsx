@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { formatPhaseValue, parsePhaseValue } from '@/lib/cellEditors';
+
+interface PhaseCellEditorProps {
+  value: any;
+  phaseCount: number;
+  onSave: (value: string) => void;
+  onCancel: () => void;
+}
+
+export default function PhaseCellEditor({ value, phaseCount, onSave, onCancel }: PhaseCellEditorProps) {
+  const [phases, setPhases] = useState<number[]>(() => parsePhaseValue(value));
+  const [range, setRange] = useState('');
+  const count = Math.max(phaseCount, ...phases);
+
+  const togglePhase = (phase: number) => {
+    setPhases(phases.includes(phase) ? phases.filter(p => p !== phase) : [...phases, phase].sort((a, b) => a - b));
+  };
+
+  // Typed ranges such as "1-3,5" replace the selection
+  const applyRange = () => {
+    const parsed = parsePhaseValue(range);
+    if (parsed.length > 0) setPhases(parsed);
+    setRange('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-6 gap-1">
+        {Array.from({ length: count }, (_, idx) => idx + 1).map(phase => (
+          <button
+            key={phase}
+            onClick={() => togglePhase(phase)}
+            className={`py-1 rounded text-xs ${
+              phases.includes(phase) ? 'bg-blue-600 text-white' : 'bg-gray-700 text-gray-400 hover:bg-gray-600'
+            }`}
+          >
+            {phase}
+          </button>
+        ))}
+      </div>
+      <input
+        autoFocus
+        className="w-full bg-gray-700 text-gray-100 rounded px-2 py-0.5 focus:outline-none font-mono"
+        placeholder="Range, e.g. 1-3,5"
+        value={range}
+        onChange={e => setRange(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter') applyRange();
+          if (e.key === 'Escape') onCancel();
+        }}
+        onBlur={() => range.trim() && applyRange()}
+      />
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-gray-400 font-mono">{formatPhaseValue(phases)}</span>
+        <div className="flex gap-2">
+          <button onClick={onCancel} className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(formatPhaseValue(range.trim() ? parsePhaseValue(range) : phases))}
+            className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -23,6 +23,8 @@ interface PrioritizationPanelProps {
   tasks: any[];
   rules: any[];
   onConfigChange: (config: PrioritizationConfig) => void;
+  // Configuration of a restored workspace
+  initialConfig?: PrioritizationConfig | null;
 }
 
 export default function PrioritizationPanel({ 
@@ -30,11 +32,13 @@ export default function PrioritizationPanel({
   workers, 
   tasks, 
   rules, 
-  onConfigChange 
+  onConfigChange,
+  initialConfig
 }: PrioritizationPanelProps) {
   const [activeMethod, setActiveMethod] = useState<'sliders' | 'ranking' | 'pairwise' | 'profiles'>('profiles');
-  const [selectedProfile, setSelectedProfile] = useState<PrioritizationProfile>(presetProfiles[0]);
-  const [customCriteria, setCustomCriteria] = useState<PrioritizationCriteria[]>(defaultCriteria);
+  const [selectedProfile, setSelectedProfile] = useState<PrioritizationProfile>(initialConfig?.profile ?? presetProfiles[0]);
+  const [customCriteria, setCustomCriteria] = useState<PrioritizationCriteria[]>(initialConfig?.profile.criteria ?? defaultCriteria);
+  const [restoredConfig] = useState(initialConfig);
   const [pairwiseComparisons, setPairwiseComparisons] = useState<PairwiseComparison[]>([]);
   const [consistencyRatio, setConsistencyRatio] = useState(0);
   const [isExporting, setIsExporting] = useState(false);
@@ -42,7 +46,10 @@ export default function PrioritizationPanel({
 
   useEffect(() => {
     // Initialize pairwise comparisons
-    const comparisons = generatePairwiseComparisons(customCriteria);
+    // Restored comparisons apply until the criteria change
+    const comparisons = restoredConfig && customCriteria === restoredConfig.profile.criteria
+      ? restoredConfig.pairwiseComparisons
+      : generatePairwiseComparisons(customCriteria);
     setPairwiseComparisons(comparisons);
     
     // Calculate initial consistency ratio
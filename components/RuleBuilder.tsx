@@ -29,10 +29,12 @@ import {
 interface RuleBuilderProps {
   data: any;
   onRulesChange: (rules: BusinessRule[]) => void;
+  // Rules of a restored workspace
+  initialRules?: BusinessRule[];
 }
 
-export default function RuleBuilder({ data, onRulesChange }: RuleBuilderProps) {
-  const [rules, setRules] = useState<BusinessRule[]>([]);
+export default function RuleBuilder({ data, onRulesChange, initialRules }: RuleBuilderProps) {
+  const [rules, setRules] = useState<BusinessRule[]>(initialRules ?? []);
   const [activeTab, setActiveTab] = useState<'manual' | 'ai' | 'recommendations'>('manual');
   const [selectedRuleType, setSelectedRuleType] = useState<BusinessRule['type']>('coRun');
   const [naturalLanguageInput, setNaturalLanguageInput] = useState('');
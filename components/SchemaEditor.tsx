@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  EntityType,
+  FieldDefinition,
+  FieldType,
+  SchemaRegistry,
+  defaultSchemas,
+  fieldTypes,
+  exportSchemas,
+  parseSchemas
+} from '@/lib/schemas';
+
+interface SchemaEditorProps {
+  schemas: SchemaRegistry;
+  onSchemasChange: (schemas: SchemaRegistry) => void;
+}
+
+export default function SchemaEditor({ schemas, onSchemasChange }: SchemaEditorProps) {
+  const [draft, setDraft] = useState<SchemaRegistry>(schemas);
+  const [activeEntity, setActiveEntity] = useState<EntityType>('client');
+  const [newFieldName, setNewFieldName] = useState('');
+  const [importError, setImportError] = useState<string | null>(null);
+  // Alias text as typed in the focused field, so a trailing comma is not swallowed while typing
+  const [aliasText, setAliasText] = useState<{ field: string; text: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setDraft(schemas);
+    setAliasText(null);
+  }, [schemas]);
+
+  // An imported schema file may drop the custom entity being edited
+  useEffect(() => {
+    if (!draft[activeEntity]) setActiveEntity('client');
+  }, [draft, activeEntity]);
+
+  const fields = draft[activeEntity]?.fields ?? [];
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(schemas);
+
+  const updateFields = (updater: (fields: FieldDefinition[]) => FieldDefinition[]) => {
+    setDraft(prev => ({
+      ...prev,
+      [activeEntity]: { ...prev[activeEntity], fields: updater(prev[activeEntity].fields) }
+    }));
+  };
+
+  const handleFieldChange = (name: string, changes: Partial<FieldDefinition>) => {
+    updateFields(prev => prev.map(field => field.name === name ? { ...field, ...changes } : field));
+  };
+
+  const handleAddField = () => {
+    const name = newFieldName.trim().toLowerCase().replace(/\s+/g, '');
+    if (!name || fields.some(field => field.name === name)) return;
+    updateFields(prev => [...prev, { name, aliases: [], type: 'string', required: false }]);
+    setNewFieldName('');
+  };
+
+  const handleRemoveField = (name: string) => {
+    updateFields(prev => prev.filter(field => field.name !== name));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportSchemas(draft)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'entity-schemas.json';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseSchemas(await file.text());
+      setImportError(null);
+      setDraft(imported);
+      onSchemasChange(imported);
+    } catch (error: any) {
+      setImportError(error.message || 'Invalid schema file');
+    }
+  };
+
+  return (
+    <div className="w-full bg-gray-900 rounded-lg border border-gray-700 p-4 space-y-4">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-200">⚙️ Entity Schemas</h4>
+        <div className="flex gap-2">
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600"
+          >
+            Import JSON
+          </button>
+          <input
+            type="file"
+            ref={importInputRef}
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              if (e.target.files && e.target.files.length > 0) {
+                handleImport(e.target.files[0]);
+                e.target.value = '';
+              }
+            }}
+          />
+          <button
+            onClick={handleExport}
+            className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600"
+          >
+            Export JSON
+          </button>
+          <button
+            onClick={() => setDraft(prev => ({ ...prev, ...defaultSchemas }))}
+            className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600"
+          >
+            Reset to Defaults
+          </button>
+          <button
+            onClick={() => onSchemasChange(draft)}
+            disabled={!isDirty}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Save Schemas
+          </button>
+        </div>
+      </div>
+
+      {importError && (
+        <div className="bg-red-900/20 border border-red-700 rounded-lg p-2 text-xs text-red-300">
+          Could not import schemas: {importError}
+        </div>
+      )}
+
+      {/* Entity Tabs */}
+      <div className="flex gap-1 border-b border-gray-700">
+        {(Object.keys(draft) as EntityType[]).map(entity => (
+          <button
+            key={entity}
+            onClick={() => setActiveEntity(entity)}
+            className={`px-4 py-2 text-sm rounded-t-lg ${
+              activeEntity === entity
+                ? 'bg-gray-800 text-white border border-b-0 border-gray-700'
+                : 'text-gray-400 hover:text-gray-200'
+            }`}
+          >
+            {draft[entity].label}
+          </button>
+        ))}
+      </div>
+
+      {/* Fields */}
+      <table className="min-w-full text-xs text-left text-gray-300">
+        <thead>
+          <tr>
+            <th className="px-3 py-2 border-b border-gray-700 font-semibold">Field</th>
+            <th className="px-3 py-2 border-b border-gray-700 font-semibold">Aliases (comma-separated)</th>
+            <th className="px-3 py-2 border-b border-gray-700 font-semibold">Type</th>
+            <th className="px-3 py-2 border-b border-gray-700 font-semibold">Required</th>
+            <th className="px-3 py-2 border-b border-gray-700"></th>
+          </tr>
+        </thead>
+        <tbody>
+          {fields.map(field => (
+            <tr key={field.name}>
+              <td className="px-3 py-2 border-b border-gray-800 font-mono">{field.name}</td>
+              <td className="px-3 py-2 border-b border-gray-800">
+                <input
+                  className="bg-transparent text-gray-100 border-b border-gray-700 w-full focus:outline-none"
+                  value={aliasText?.field === field.name ? aliasText.text : field.aliases.join(', ')}
+                  onChange={e => {
+                    setAliasText({ field: field.name, text: e.target.value });
+                    handleFieldChange(field.name, {
+                      aliases: e.target.value.split(',').map(alias => alias.trim()).filter(Boolean)
+                    });
+                  }}
+                  onBlur={() => setAliasText(null)}
+                />
+              </td>
+              <td className="px-3 py-2 border-b border-gray-800">
+                <select
+                  value={field.type}
+                  onChange={e => handleFieldChange(field.name, { type: e.target.value as FieldType })}
+                  className="bg-gray-700 text-gray-100 rounded px-2 py-1"
+                >
+                  {fieldTypes.map(type => (
+                    <option key={type} value={type}>{type}</option>
+                  ))}
+                </select>
+              </td>
+              <td className="px-3 py-2 border-b border-gray-800">
+                <input
+                  type="checkbox"
+                  checked={field.required}
+                  onChange={e => handleFieldChange(field.name, { required: e.target.checked })}
+                />
+              </td>
+              <td className="px-3 py-2 border-b border-gray-800 text-right">
+                <button
+                  onClick={() => handleRemoveField(field.name)}
+                  className="text-red-400 hover:text-red-300"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Add Field */}
+      <div className="flex gap-2">
+        <input
+          value={newFieldName}
+          onChange={e => setNewFieldName(e.target.value)}
+          onKeyDown={e => e.key === 'Enter' && handleAddField()}
+          placeholder="New field name, e.g. hourlyrate"
+          className="flex-1 bg-gray-800 text-gray-100 rounded px-3 py-1 text-sm border border-gray-700 focus:outline-none"
+        />
+        <button
+          onClick={handleAddField}
+          disabled={!newFieldName.trim()}
+          className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Add Field
+        </button>
+      </div>
+
+      {isDirty && (
+        <p className="text-xs text-yellow-300">Unsaved schema changes. Save to use them for detection, mapping and validation.</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+import React from 'react';
+import { SheetPreview, SheetLayout, flattenHeaderRows } from '@/lib/sheetLayout';
+
+interface SheetLayoutCardProps {
+  preview: SheetPreview;
+  onLayoutChange: (fileId: string, sheetName: string, layout: SheetLayout) => void;
+}
+
+export default function SheetLayoutCard({ preview, onLayoutChange }: SheetLayoutCardProps) {
+  const { fileId, fileName, sheetName, rows, merges, totalRows, layout } = preview;
+  const headerEnd = layout.headerRow + layout.headerDepth;
+  const columns = flattenHeaderRows(rows.slice(layout.headerRow, headerEnd), merges, layout.headerRow);
+  const width = Math.max(0, ...rows.map(row => row.length));
+
+  const update = (changes: Partial<SheetLayout>) => onLayoutChange(fileId, sheetName, { ...layout, ...changes });
+
+  const getRowClass = (index: number) => {
+    if (index < layout.headerRow) return 'opacity-40 line-through';
+    if (index < headerEnd) return 'bg-blue-900/40 text-blue-200 font-semibold';
+    return '';
+  };
+
+  return (
+    <div className="border border-gray-700 rounded-lg p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-4 text-xs">
+        <span className="text-gray-200 font-medium truncate">{fileName} / {sheetName}</span>
+        <span className="text-gray-500">{totalRows} rows in sheet</span>
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-gray-300">
+        <label className="flex items-center gap-2">
+          Header row
+          <select
+            value={layout.headerRow}
+            onChange={e => update({ headerRow: Number(e.target.value) })}
+            className="bg-gray-700 text-gray-100 rounded px-2 py-1"
+          >
+            {rows.map((_, index) => (
+              <option key={index} value={index}>Row {index + 1}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Header rows
+          <select
+            value={layout.headerDepth}
+            onChange={e => update({ headerDepth: Number(e.target.value) })}
+            className="bg-gray-700 text-gray-100 rounded px-2 py-1"
+          >
+            {[1, 2, 3].map(depth => (
+              <option key={depth} value={depth}>{depth}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Skip trailing rows
+          <input
+            type="number"
+            min={0}
+            value={layout.skipTrailing}
+            onChange={e => update({ skipTrailing: Math.max(0, Number(e.target.value) || 0) })}
+            className="w-16 bg-gray-700 text-gray-100 rounded px-2 py-1"
+          />
+        </label>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-xs text-left text-gray-300">
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className={getRowClass(index)}>
+                <td className="px-2 py-1 border-b border-gray-800 text-gray-500">{index + 1}</td>
+                {Array.from({ length: width }, (_, c) => (
+                  <td key={c} className="px-2 py-1 border-b border-gray-800 whitespace-nowrap truncate max-w-[200px]">
+                    {String(row[c] ?? '')}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-gray-400">
+        Columns: <span className="text-gray-200">{columns.join(', ')}</span>
+      </p>
+      {layout.skipTrailing > 0 && (
+        <p className="text-xs text-yellow-300">The last {layout.skipTrailing} non-empty row{layout.skipTrailing !== 1 ? 's' : ''} of the sheet will be skipped.</p>
+      )}
+    </div>
+  );
+}
@@ -4,9 +4,24 @@ import { ValidationResult, ValidationError } from '@/lib/validation';
 interface ValidationSummaryProps {
   validationResult: ValidationResult | null;
   onErrorClick?: (error: ValidationError) => void;
+  onSuppress?: (error: ValidationError) => void;
+  // Issues of this table the user hid, already left out of validationResult
+  hiddenCount?: number;
+  onShowHidden?: () => void;
 }
 
-export default function ValidationSummary({ validationResult, onErrorClick }: ValidationSummaryProps) {
+export default function ValidationSummary({ validationResult, onErrorClick, onSuppress, hiddenCount = 0, onShowHidden }: ValidationSummaryProps) {
+  const hiddenNote = hiddenCount > 0 && (
+    <div className="text-xs text-gray-400">
+      {hiddenCount} hidden {hiddenCount === 1 ? 'issue' : 'issues'}
+      {onShowHidden && (
+        <button onClick={onShowHidden} className="ml-2 underline hover:text-gray-200">
+          Show again
+        </button>
+      )}
+    </div>
+  );
+
   if (!validationResult) {
     return (
       <div className="text-gray-400 text-sm">
@@ -19,11 +34,14 @@ export default function ValidationSummary({ validationResult, onErrorClick }: Va
 
   if (errors.length === 0) {
     return (
-      <div className="flex items-center gap-2 text-green-400">
-        <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
-          <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-        </svg>
-        <span>All validations passed! 🎉</span>
+      <div className="space-y-2">
+        <div className="flex items-center gap-2 text-green-400">
+          <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 20 20">
+            <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+          </svg>
+          <span>All validations passed! 🎉</span>
+        </div>
+        {hiddenNote}
       </div>
     );
   }
@@ -55,6 +73,8 @@ export default function ValidationSummary({ validationResult, onErrorClick }: Va
 
   return (
     <div className="space-y-4">
+      {hiddenNote}
+
       {/* Summary Stats */}
       <div className="grid grid-cols-3 gap-4 p-4 bg-gray-900 rounded-lg border border-gray-700">
         <div className="text-center">
@@ -139,6 +159,18 @@ export default function ValidationSummary({ validationResult, onErrorClick }: Va
                         Go to Row
                       </button>
                     )}
+                    {onSuppress && (
+                      <button
+                        className="text-xs text-gray-400 hover:text-gray-200 ml-2"
+                        title="Hide this issue, it is kept hidden in the workspace and the project file"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onSuppress(error);
+                        }}
+                      >
+                        Hide
+                      </button>
+                    )}
                   </div>
                 </div>
               ))}
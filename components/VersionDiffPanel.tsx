@@ -0,0 +1,121 @@
+import React from 'react';
+import { VersionDiff, DiffIssue } from '@/lib/versionDiff';
+
+interface VersionDiffPanelProps {
+  diff: VersionDiff;
+  fileName: string;
+  entityLabel: string;
+  onExport: () => void;
+  onClose: () => void;
+}
+
+const MAX_ITEMS = 50;
+
+const formatValue = (value: any) => value === '' || value === undefined || value === null ? '∅' : String(value);
+
+function IssueList({ title, issues, className }: { title: string; issues: DiffIssue[]; className: string }) {
+  if (issues.length === 0) return null;
+  return (
+    <div>
+      <h5 className="text-xs font-semibold text-gray-300 mb-1">{title} ({issues.length})</h5>
+      <ul className="text-xs space-y-1 max-h-48 overflow-y-auto">
+        {issues.slice(0, MAX_ITEMS).map((issue, idx) => (
+          <li key={idx} className={className}>
+            {issue.id && <span className="font-mono text-gray-400">{issue.id} </span>}
+            {issue.column && <span className="text-gray-500">[{issue.column}] </span>}
+            {issue.message}
+          </li>
+        ))}
+        {issues.length > MAX_ITEMS && <li className="text-gray-500">…and {issues.length - MAX_ITEMS} more</li>}
+      </ul>
+    </div>
+  );
+}
+
+export default function VersionDiffPanel({ diff, fileName, entityLabel, onExport, onClose }: VersionDiffPanelProps) {
+  const changedCells = diff.changed.reduce((sum, row) => sum + row.cells.length, 0);
+  const rowIds = (rows: any[]) => rows.map(row => row[diff.idColumn]).join(', ');
+
+  return (
+    <div className="mt-4 bg-gray-900 rounded-lg border border-blue-700 p-4 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-200">🔍 Changes in {fileName}</h4>
+          <p className="text-xs text-gray-400 mt-1">
+            Compared with the current {entityLabel} table • matched by <span className="font-mono">{diff.idColumn}</span>
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={onExport}
+            className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700"
+          >
+            Export CSV
+          </button>
+          <button
+            onClick={onClose}
+            className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-6 gap-2 text-center text-xs">
+        <div className="bg-gray-800 rounded p-2"><div className="text-lg text-green-400">{diff.added.length}</div>rows added</div>
+        <div className="bg-gray-800 rounded p-2"><div className="text-lg text-red-400">{diff.removed.length}</div>rows removed</div>
+        <div className="bg-gray-800 rounded p-2"><div className="text-lg text-blue-400">{diff.changed.length}</div>rows changed</div>
+        <div className="bg-gray-800 rounded p-2"><div className="text-lg text-blue-300">{changedCells}</div>cells changed</div>
+        <div className="bg-gray-800 rounded p-2"><div className="text-lg text-yellow-400">{diff.introducedIssues.length}</div>new issues</div>
+        <div className="bg-gray-800 rounded p-2"><div className="text-lg text-green-300">{diff.resolvedIssues.length}</div>resolved issues</div>
+      </div>
+
+      {(diff.addedColumns.length > 0 || diff.removedColumns.length > 0) && (
+        <div className="text-xs text-yellow-300 space-y-1">
+          {diff.addedColumns.length > 0 && <div>New columns: {diff.addedColumns.join(', ')}</div>}
+          {diff.removedColumns.length > 0 && <div>Columns no longer in the file: {diff.removedColumns.join(', ')}</div>}
+        </div>
+      )}
+
+      {diff.added.length > 0 && (
+        <div className="text-xs">
+          <h5 className="font-semibold text-gray-300 mb-1">Added</h5>
+          <p className="text-green-300 font-mono truncate">{rowIds(diff.added)}</p>
+        </div>
+      )}
+      {diff.removed.length > 0 && (
+        <div className="text-xs">
+          <h5 className="font-semibold text-gray-300 mb-1">Removed</h5>
+          <p className="text-red-300 font-mono truncate">{rowIds(diff.removed)}</p>
+        </div>
+      )}
+
+      {diff.changed.length > 0 && (
+        <div>
+          <h5 className="text-xs font-semibold text-gray-300 mb-1">Changed cells</h5>
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {diff.changed.slice(0, MAX_ITEMS).map(row => (
+              <div key={row.id} className="bg-gray-800 rounded p-2 text-xs">
+                <span className="font-mono text-gray-200">{row.id}</span>
+                {row.cells.map(cell => (
+                  <div key={cell.column} className="ml-2">
+                    <span className="text-gray-400">{cell.column}: </span>
+                    <span className="text-red-300 line-through">{formatValue(cell.before)}</span>
+                    <span className="text-gray-500"> → </span>
+                    <span className="text-green-300">{formatValue(cell.after)}</span>
+                  </div>
+                ))}
+              </div>
+            ))}
+            {diff.changed.length > MAX_ITEMS && (
+              <p className="text-xs text-gray-500">…and {diff.changed.length - MAX_ITEMS} more rows</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <IssueList title="Introduced validation issues" issues={diff.introducedIssues} className="text-yellow-300" />
+      <IssueList title="Resolved validation issues" issues={diff.resolvedIssues} className="text-green-300" />
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import React, { useRef, useState } from 'react';
+import { WorkspaceSummary } from '@/lib/workspaceStore';
+import { PROJECT_FILE_EXTENSION } from '@/lib/projectFile';
+
+interface WorkspaceBarProps {
+  workspace: { id: string; name: string };
+  workspaces: WorkspaceSummary[];
+  lastSavedAt: string | null;
+  onRename: (name: string) => void;
+  onOpen: (id: string) => void;
+  onNew: () => void;
+  onDelete: (id: string) => void;
+  onExportProject: () => void;
+  onImportProject: (file: File) => void;
+}
+
+const formatSavedAt = (savedAt: string) => new Date(savedAt).toLocaleString();
+
+export default function WorkspaceBar({
+  workspace,
+  workspaces,
+  lastSavedAt,
+  onRename,
+  onOpen,
+  onNew,
+  onDelete,
+  onExportProject,
+  onImportProject
+}: WorkspaceBarProps) {
+  const projectInputRef = useRef<HTMLInputElement>(null);
+  const [showList, setShowList] = useState(false);
+  const others = workspaces.filter(saved => saved.id !== workspace.id);
+
+  return (
+    <div className="relative mb-6 flex flex-wrap items-center justify-center gap-3 text-sm text-gray-400">
+      <span>💾 Workspace</span>
+      <input
+        className="bg-gray-800 text-gray-100 rounded px-2 py-1 focus:outline-none border border-gray-700 w-64"
+        value={workspace.name}
+        onChange={e => onRename(e.target.value)}
+      />
+      <span className="text-xs">
+        {lastSavedAt ? `Saved ${new Date(lastSavedAt).toLocaleTimeString()}` : 'Not saved yet'}
+      </span>
+      <button onClick={() => setShowList(!showList)} className="underline hover:text-gray-200">
+        Switch ({others.length}) ▾
+      </button>
+      <button onClick={onNew} className="underline hover:text-gray-200">
+        + New workspace
+      </button>
+      <button onClick={onExportProject} className="underline hover:text-gray-200" title={`Tables, header mappings, grid views, hidden issues, rules and prioritization in one ${PROJECT_FILE_EXTENSION} file`}>
+        ⬇ Export project
+      </button>
+      <button onClick={() => projectInputRef.current?.click()} className="underline hover:text-gray-200">
+        ⬆ Open project
+      </button>
+      <input
+        type="file"
+        ref={projectInputRef}
+        accept=".json"
+        className="hidden"
+        onChange={e => {
+          if (e.target.files && e.target.files.length > 0) {
+            onImportProject(e.target.files[0]);
+            e.target.value = '';
+          }
+        }}
+      />
+      {showList && (
+        <div className="absolute top-9 z-30 bg-gray-800 border border-gray-700 rounded p-2 w-96 max-h-72 overflow-y-auto">
+          {others.length === 0 && <p className="text-xs text-gray-500 p-1">No other saved workspaces.</p>}
+          {others.map(saved => (
+            <div key={saved.id} className="flex items-center justify-between gap-2 px-2 py-1 rounded hover:bg-gray-700">
+              <button
+                onClick={() => { setShowList(false); onOpen(saved.id); }}
+                className="flex-1 text-left"
+              >
+                <div className="text-gray-200">{saved.name}</div>
+                <div className="text-xs text-gray-500">
+                  {saved.tableCount} tables • {saved.rowCount} rows • {formatSavedAt(saved.savedAt)}
+                </div>
+              </button>
+              <button
+                onClick={() => onDelete(saved.id)}
+                className="text-gray-500 hover:text-red-400"
+                title="Delete this workspace"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
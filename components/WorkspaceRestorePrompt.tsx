@@ -0,0 +1,55 @@
+import React from 'react';
+import { WorkspaceSummary } from '@/lib/workspaceStore';
+
+interface WorkspaceRestorePromptProps {
+  workspaces: WorkspaceSummary[];
+  // The workspace the page was last working in
+  currentId: string | null;
+  onRestore: (id: string) => void;
+  onStartFresh: () => void;
+}
+
+export default function WorkspaceRestorePrompt({ workspaces, currentId, onRestore, onStartFresh }: WorkspaceRestorePromptProps) {
+  const ordered = [
+    ...workspaces.filter(saved => saved.id === currentId),
+    ...workspaces.filter(saved => saved.id !== currentId)
+  ];
+
+  return (
+    <div className="mb-8 mx-auto max-w-2xl bg-gray-800 border border-blue-700 rounded-xl p-5 space-y-3">
+      <div>
+        <h3 className="text-base font-semibold text-gray-100">Restore your previous work?</h3>
+        <p className="text-sm text-gray-400 mt-1">
+          Tables, edits, rules and prioritization settings were saved in this browser.
+        </p>
+      </div>
+      <div className="space-y-2 max-h-64 overflow-y-auto">
+        {ordered.map(saved => (
+          <div key={saved.id} className="flex items-center justify-between gap-3 bg-gray-900 rounded p-3">
+            <div>
+              <div className="text-sm text-gray-200">
+                {saved.name}
+                {saved.id === currentId && <span className="ml-2 text-xs text-blue-400">last opened</span>}
+              </div>
+              <div className="text-xs text-gray-500">
+                {saved.tableCount} tables • {saved.rowCount} rows • saved {new Date(saved.savedAt).toLocaleString()}
+              </div>
+            </div>
+            <button
+              onClick={() => onRestore(saved.id)}
+              className="px-3 py-1 bg-green-600 text-white rounded text-sm hover:bg-green-700"
+            >
+              Restore
+            </button>
+          </div>
+        ))}
+      </div>
+      <button
+        onClick={onStartFresh}
+        className="px-3 py-1 bg-gray-700 text-white rounded text-sm hover:bg-gray-600"
+      >
+        Start fresh
+      </button>
+    </div>
+  );
+}
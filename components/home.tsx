@@ -1,121 +1,459 @@
 "use client"
 
 import { AppDispatch, RootState } from "@/store"
-import { useEffect, useRef, useState } from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
 import { useDispatch, useSelector } from "react-redux"
-import { setFile, setData, setValidationResult, setValidationRunning, clearValidation } from "@/store/dataSlice"
-import Papa from "papaparse"
-import * as XLSX from "xlsx"
-import { schemas } from "@/lib/schemas"
-import { validateData, getCellErrors, ValidationError, CrossEntityData } from "@/lib/validation"
+import { loadTables, appendTableRows, mergeTableRows, revertTables, setActiveEntity, setTableData, remapTableColumns, updateCell, updateCells, commitEdits, restoreWorkspace, jumpToHistory, setValidationResult, setColumnProfiles, setValidationRunning, selectCrossEntityData, toDataSnapshot, EntityTable, TablePayload } from "@/store/dataSlice"
+import { SchemaRegistry, isCustomEntity, getIdField } from "@/lib/schemas"
+import { setSchemas, resetSchemas } from "@/store/schemaSlice"
+import { resolveSources, resolveDiagnostic, classifyRows, assignSourceEntity, assignCustomEntity, confirmSourceMapping, getSourceRows, getSourceRowsAs, createImportId, EntityType, ImportedSource, SourceChoices } from "@/lib/dataImport"
+import { HeaderMapping, applyHeaderMapping, remapMappedRows } from "@/lib/headerMapping"
+import { CsvPreflight, CsvParseOptions, sniffCsvFile } from "@/lib/csvPreflight"
+import { SheetPreview, SheetLayout, previewWorkbook } from "@/lib/sheetLayout"
+import { PastedTable, readClipboardCells, isMultiCellPaste, toPastedTable, pastedToRows, alignPastedColumns, alignPastedRows } from "@/lib/clipboardImport"
+import { streamImportFiles, isImportCancelled, ImportProgress, ImportSettings, StreamingImport, UploadedFile } from "@/lib/streamingImport"
+import { rememberMapping, forgetMapping } from "@/lib/mappingMemory"
+import { validateData, validateRow, hideSuppressedIssues, toSuppressedIssue, isSameIssue, SuppressedIssue, ValidationError, ValidationResult } from "@/lib/validation"
+import { profileTable } from "@/lib/columnProfile"
+import { MergePreview, ConflictChoice, buildMergePreview, applyMerge } from "@/lib/mergeImport"
+import { VersionDiff, buildVersionDiff, versionDiffToCsv } from "@/lib/versionDiff"
+import { applyReplacements } from "@/lib/findReplace"
+import { CellEdit, CellPatch } from "@/lib/history"
+import { RowAction, RowEdit, RowIndexMap, applyRowAction, addColumn, deleteColumn, historyIndexMap, composeIndexMaps, insertImportedRows, remapRowIndices, remapRowRecord, remapValidationResult, remapMergePreview } from "@/lib/tableOperations"
+import { Workspace, WorkspaceSummary, isWorkspaceStoreAvailable, listWorkspaces, loadWorkspace, saveWorkspace, deleteWorkspace, createWorkspaceId, getCurrentWorkspaceId, setCurrentWorkspaceId, summarizeWorkspace, hasSameContent } from "@/lib/workspaceStore"
+import { PROJECT_FILE_EXTENSION, toProjectFile, serializeProjectFile, parseProjectFile, fromProjectFile } from "@/lib/projectFile"
+import { GridViewSettings, defaultGridView, loadGridViews, saveGridViews } from "@/lib/gridView"
 import ValidationSummary from "./ValidationSummary"
 import AISearch from "./AISearch"
 import AICorrections from "./AICorrections"
 import RuleBuilder from "./RuleBuilder"
 import PrioritizationPanel from "./PrioritizationPanel"
+import ImportSummary from "./ImportSummary"
+import DataGrid from "./DataGrid"
+import HeaderMappingReview from "./HeaderMappingReview"
+import SchemaEditor from "./SchemaEditor"
+import ImportProgressBar from "./ImportProgressBar"
+import ImportPreflightPanel from "./ImportPreflightPanel"
+import ParseDiagnosticsPanel from "./ParseDiagnosticsPanel"
+import PasteImport from "./PasteImport"
+import ColumnProfilePanel from "./ColumnProfilePanel"
+import MergePreviewPanel from "./MergePreviewPanel"
+import VersionDiffPanel from "./VersionDiffPanel"
+import HistoryPanel from "./HistoryPanel"
+import FindReplaceDialog from "./FindReplaceDialog"
+import WorkspaceBar from "./WorkspaceBar"
+import WorkspaceRestorePrompt from "./WorkspaceRestorePrompt"
 import { AISearchResult } from "@/lib/aiEngine"
 import { BusinessRule, generateRulesConfig } from "@/lib/ruleEngine"
 import { PrioritizationConfig } from "@/lib/prioritizationEngine"
 
 
+// Edits settle for a moment before the workspace is written
+const AUTOSAVE_DELAY = 1000
+
+const entityTabs: { entity: EntityType; label: string }[] = [
+    { entity: "client", label: "Clients" },
+    { entity: "worker", label: "Workers" },
+    { entity: "task", label: "Tasks" },
+]
+
 export default function Home() {
     const fileInputRef = useRef<HTMLInputElement>(null)
+    const compareInputRef = useRef<HTMLInputElement>(null)
     const dispatch = useDispatch<AppDispatch>();
-    const {file, data, validationResult, isValidationRunning} = useSelector((state:RootState)=>state.data)
-    const [entity, setEntity] = useState<string | null>(null);
-    const [editedData, setEditedData] = useState<any[]>([])
+    const dataState = useSelector((state:RootState)=>state.data)
+    const {tables, activeEntity, isValidationRunning, history, historyPosition} = dataState
+    const crossEntityData = useSelector(selectCrossEntityData)
+    const schemas = useSelector((state:RootState)=>state.schema.schemas)
+    const activeTable = activeEntity ? tables[activeEntity] : undefined
+    const entity = activeEntity
+    const editedData = activeTable?.editedData ?? []
+    const validationResult = activeTable?.validationResult ?? null
+    const columnProfiles = activeTable?.columnProfiles ?? null
     const [rowErrors,setRowErrors] = useState<Record<number,Record<string,string>>>({});
     const [selectedRow, setSelectedRow] = useState<number | null>(null);
     const [searchResult, setSearchResult] = useState<AISearchResult | null>(null);
-    const [filteredData, setFilteredData] = useState<any[]>([]);
-    const [crossEntityData, setCrossEntityData] = useState<CrossEntityData>({});
     const [businessRules, setBusinessRules] = useState<BusinessRule[]>([]);
     const [prioritizationConfig, setPrioritizationConfig] = useState<PrioritizationConfig | null>(null);
+    const [suppressedIssues, setSuppressedIssues] = useState<SuppressedIssue[]>([]);
     const [activeSection, setActiveSection] = useState<'data' | 'rules' | 'prioritization'>('data');
+    const [selectedFileNames, setSelectedFileNames] = useState<string[]>([]);
+    const [importSources, setImportSources] = useState<ImportedSource[]>([]);
+    const [sourceChoices, setSourceChoices] = useState<SourceChoices>({});
+    const [reviewSource, setReviewSource] = useState<string | null>(null);
+    const [showSchemaEditor, setShowSchemaEditor] = useState(false);
+    const [importProgress, setImportProgress] = useState<ImportProgress | null>(null);
+    const activeImportRef = useRef<StreamingImport | null>(null)
+    const [pendingFiles, setPendingFiles] = useState<UploadedFile[]>([]);
+    const [csvPreflights, setCsvPreflights] = useState<CsvPreflight[]>([]);
+    const [sheetPreviews, setSheetPreviews] = useState<SheetPreview[]>([]);
+    const [pastedTable, setPastedTable] = useState<PastedTable | null>(null);
+    const [showColumnProfiles, setShowColumnProfiles] = useState(false);
+    const [mergeMode, setMergeMode] = useState(false);
+    const [pendingMerges, setPendingMerges] = useState<{source: ImportedSource; preview: MergePreview}[]>([]);
+    const [versionDiff, setVersionDiff] = useState<{fileName: string; entity: EntityType; diff: VersionDiff} | null>(null);
+    const [gridViews, setGridViews] = useState<Record<string, GridViewSettings>>({});
+    const [showHistory, setShowHistory] = useState(false);
+    const [showFindReplace, setShowFindReplace] = useState(false);
+    const [workspace, setWorkspace] = useState<{id: string; name: string} | null>(null);
+    const [savedWorkspaces, setSavedWorkspaces] = useState<WorkspaceSummary[]>([]);
+    const [showRestorePrompt, setShowRestorePrompt] = useState(false);
+    // The workspace the page was working in before this visit started a new one
+    const [lastOpenedId, setLastOpenedId] = useState<string | null>(null);
+    const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+    const savedWorkspace = useRef<Workspace | null>(null)
+    // Remounts the rule and prioritization panels so they pick up restored settings
+    const [workspaceKey, setWorkspaceKey] = useState(0);
+    const isImporting = importProgress !== null
+    // What the grid and the summary show, issues the user hid left out
+    const visibleResult = useMemo(
+        () => validationResult && entity ? hideSuppressedIssues(validationResult, suppressedIssues, entity, editedData, schemas) : validationResult,
+        [validationResult, suppressedIssues, entity, editedData, schemas]
+    )
+    const sourceUnderReview = importSources.find(source => source.id === reviewSource)
+    // Custom entities get a tab once a table has been loaded for them
+    const tabs = [
+        ...entityTabs,
+        ...(Object.keys(tables) as EntityType[]).filter(isCustomEntity).map(custom => ({entity: custom, label: schemas[custom]?.label ?? custom}))
+    ]
 
+    // Saved sort, filters and column layout of every entity
     useEffect(()=>{
-        if(entity && Array.isArray(data) && data.length > 0){
-            const headers = Object.keys(data[0])
-            const headerMap = mapHeaders(headers, entity)
-            const normalizedData = remapDataRows(data, headerMap)
-            dispatch(setData(normalizedData))
-        }
-    },[entity])
-    useEffect(()=>{
-        if(Array.isArray(data)) setEditedData(data)
-    },[data])
+        setGridViews(loadGridViews())
+    },[])
+
     useEffect(()=>{
-        if(Array.isArray(editedData) && entity){
+        // Validate once the whole file is in rather than after every streamed chunk
+        if(entity && activeTable && !isImporting){
+            const rows = activeTable.editedData
             // Run comprehensive validation
             dispatch(setValidationRunning(true));
             
             // Use setTimeout to avoid blocking the UI
-            setTimeout(() => {
-                const result = validateData(editedData, entity, crossEntityData);
-                dispatch(setValidationResult(result));
+            const timer = setTimeout(() => {
+                const profiles = profileTable(rows);
+                const result = validateData(rows, entity, crossEntityData, schemas, profiles);
+                dispatch(setValidationResult({entity, result}));
+                dispatch(setColumnProfiles({entity, profiles}));
                 dispatch(setValidationRunning(false));
                 
                 // Update row errors for inline validation
                 const allErrors: Record<number,Record<string,string>> = {}
-                editedData.forEach((row, idx)=>{
-                    const errors = validate(row,entity)
+                rows.forEach((row, idx)=>{
+                    const errors = validateRow(row, entity, schemas)
                     if(Object.keys(errors).length > 0) allErrors[idx] = errors
                 })
                 setRowErrors(allErrors)
             }, 100);
+            return () => clearTimeout(timer)
+        }
+    },[activeTable?.editedData, entity, schemas, isImporting, dispatch]) // Removed crossEntityData
+
+    // Work is autosaved under a new workspace from the start, saved ones are offered next to it
+    useEffect(()=>{
+        setLastOpenedId(getCurrentWorkspaceId())
+        startWorkspace()
+        // Without IndexedDB the workspace is not saved, but projects can still be exported
+        if(!isWorkspaceStoreAvailable()) return
+        listWorkspaces()
+            .then(list => {
+                setSavedWorkspaces(list)
+                if(list.length > 0) setShowRestorePrompt(true)
+            })
+            .catch(err => console.error("Failed to read saved workspaces:", err))
+    },[])
+
+    useEffect(()=>{
+        if(!workspace || isImporting || !hasWorkspaceContent() || !isWorkspaceStoreAvailable() || !hasUnsavedChanges()) return
+        const timer = setTimeout(() => persistWorkspace(), AUTOSAVE_DELAY)
+        return () => clearTimeout(timer)
+    },[workspace, dataState.tables, dataState.activeEntity, dataState.history, dataState.historyPosition, schemas, businessRules, prioritizationConfig, gridViews, suppressedIssues, isImporting])
+
+    // Ctrl+Z / Ctrl+Y undo and redo, also while typing in the grid but not in other inputs
+    useEffect(()=>{
+        function handleKeyDown(e: KeyboardEvent){
+            if(!(e.ctrlKey || e.metaKey)) return
+            const key = e.key.toLowerCase()
+            if(key !== "z" && key !== "y") return
+            const target = e.target as HTMLElement | null
+            const isEditable = target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+            if(isEditable && !target.closest("[data-grid]")) return
+            e.preventDefault()
+            handleHistoryJump(historyPosition + (key === "y" || e.shiftKey ? 1 : -1))
+        }
+        window.addEventListener("keydown", handleKeyDown)
+        return () => window.removeEventListener("keydown", handleKeyDown)
+    })
+
+    // Undo or redo to a point in the history and show the table that changed last
+    function handleHistoryJump(position: number){
+        const target = Math.max(0, Math.min(position, history.length))
+        if(target === historyPosition) return
+        const changed = history[Math.min(target, historyPosition)]
+        const direction = target < historyPosition ? "undo" : "redo"
+        const steps = direction === "undo" ? history.slice(target, historyPosition).reverse() : history.slice(historyPosition, target)
+        dispatch(jumpToHistory(target))
+        // Rows put back or taken out again carry the row indices held outside the table along
+        const maps: Partial<Record<EntityType, RowIndexMap[]>> = {}
+        steps.forEach(entry => {
+            const mapIndex = historyIndexMap(entry.patch, direction)
+            if(mapIndex) maps[entry.entity as EntityType] = [...(maps[entry.entity as EntityType] ?? []), mapIndex]
+        })
+        const remapped = Object.keys(maps) as EntityType[]
+        remapped.forEach(entityType => remapRowState(entityType, composeIndexMaps(maps[entityType]!)))
+        if(changed && changed.entity !== entity && tables[changed.entity as EntityType]){
+            handleTabChange(changed.entity as EntityType)
+        }
+    }
+
+    function hasWorkspaceContent(){
+        return Object.keys(tables).length > 0 || businessRules.length > 0
+    }
+    
+    function currentWorkspace(): Workspace | null {
+        if(!workspace) return null
+        return {
+            ...workspace,
+            savedAt: new Date().toISOString(),
+            data: toDataSnapshot(dataState),
+            schemas,
+            rules: businessRules,
+            prioritizationConfig,
+            gridViews,
+            suppressedIssues
+        }
+    }
+    
+    function hasUnsavedChanges(){
+        const current = currentWorkspace()
+        return !!current && !(savedWorkspace.current && hasSameContent(savedWorkspace.current, current))
+    }
+    
+    async function persistWorkspace(){
+        const saved = currentWorkspace()
+        if(!saved || !hasUnsavedChanges()) return
+        try{
+            await saveWorkspace(saved)
+            savedWorkspace.current = saved
+            setLastSavedAt(saved.savedAt)
+            setSavedWorkspaces(prev => [summarizeWorkspace(saved), ...prev.filter(w => w.id !== saved.id)])
+        }catch(err){
+            console.error("Failed to save workspace:", err)
+        }
+    }
+    
+    function startWorkspace(){
+        const id = createWorkspaceId()
+        setWorkspace({id, name: `Workspace ${new Date().toLocaleString()}`})
+        setCurrentWorkspaceId(id)
+        setLastSavedAt(null)
+        setShowRestorePrompt(false)
+    }
+    
+    // Import, search and merge state belongs to the tables that are being replaced
+    function resetWorkspaceView(){
+        setImportSources([])
+        setSourceChoices({})
+        setReviewSource(null)
+        setSelectedFileNames([])
+        setPastedTable(null)
+        setPendingMerges([])
+        setVersionDiff(null)
+        setSelectedRow(null)
+        setSearchResult(null)
+        setRowErrors({})
+        setWorkspaceKey(key => key + 1)
+    }
+    
+    async function handleOpenWorkspace(id: string){
+        // Edits made within the autosave delay would be lost otherwise
+        if(workspace && hasWorkspaceContent()) await persistWorkspace()
+        try{
+            const saved = await loadWorkspace(id)
+            if(!saved) return
+            applyWorkspace(saved)
+            savedWorkspace.current = saved
+            setLastSavedAt(saved.savedAt)
+        }catch(err: any){
+            alert("Could not open the workspace: " + err.message)
+        }
+    }
+    
+    function applyWorkspace(saved: Workspace){
+        dispatch(setSchemas(saved.schemas))
+        dispatch(restoreWorkspace(saved.data))
+        setBusinessRules(saved.rules)
+        setPrioritizationConfig(saved.prioritizationConfig)
+        setGridViews(saved.gridViews)
+        saveGridViews(saved.gridViews)
+        setSuppressedIssues(saved.suppressedIssues)
+        resetWorkspaceView()
+        setWorkspace({id: saved.id, name: saved.name})
+        setCurrentWorkspaceId(saved.id)
+        setShowRestorePrompt(false)
+    }
+    
+    function handleExportProject(){
+        const current = currentWorkspace()
+        if(!current) return
+        const blob = new Blob([serializeProjectFile(toProjectFile(current))], { type: 'application/json' })
+        const url = URL.createObjectURL(blob)
+        const a = document.createElement('a')
+        a.href = url
+        a.download = `${current.name.trim().replace(/[^\w.-]+/g, '-') || 'project'}${PROJECT_FILE_EXTENSION}`
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
+        URL.revokeObjectURL(url)
+    }
+    
+    // A loaded project opens as a new workspace, the current one stays saved
+    async function handleImportProject(file: File){
+        try{
+            const project = parseProjectFile(await file.text())
+            if(workspace && hasWorkspaceContent()) await persistWorkspace()
+            applyWorkspace(fromProjectFile(project, createWorkspaceId()))
+            setLastSavedAt(null)
+        }catch(err: any){
+            alert("Could not open the project file: " + err.message)
+        }
+    }
+    
+    // The current workspace stays saved, the new one starts empty
+    async function handleNewWorkspace(){
+        if(workspace && hasWorkspaceContent()) await persistWorkspace()
+        dispatch(resetSchemas())
+        dispatch(restoreWorkspace({tables: {}, activeEntity: null, history: [], historyPosition: 0}))
+        setBusinessRules([])
+        setPrioritizationConfig(null)
+        setSuppressedIssues([])
+        resetWorkspaceView()
+        startWorkspace()
+    }
+    
+    async function handleDeleteWorkspace(id: string){
+        try{
+            await deleteWorkspace(id)
+            setSavedWorkspaces(prev => prev.filter(w => w.id !== id))
+        }catch(err: any){
+            alert("Could not delete the workspace: " + err.message)
         }
-    },[editedData, entity, dispatch]) // Removed crossEntityData
+    }
 
     //inline editing
     function handleEditing(rowIdx: number, key: string, value: string){
-        setEditedData((prev)=> prev.map((row,idx)=> idx === rowIdx ? {...row, [key]: value}: row))
-        const newRow = {...editedData[rowIdx],[key]: value}
-        const errors = validate(newRow, entity ?? "")
-        setRowErrors((prev)=>({...prev,[rowIdx]:errors}))
+        if(!entity) return
+        dispatch(updateCell({entity, rowIndex: rowIdx, column: key, value}))
+        revalidateRows([{rowIndex: rowIdx, column: key, value}])
+    }
+    
+    // Paste and fill-down from the grid, one undo step for the whole range
+    function handleEditCells(edits: CellEdit[], label: string){
+        if(!entity || edits.length === 0) return
+        dispatch(updateCells({entity, edits, label}))
+        revalidateRows(edits)
+    }
+    
+    // Inline errors of edited rows, before the full validation catches up
+    function revalidateRows(edits: CellEdit[]){
+        if(!entity) return
+        const rows: Record<number, any> = {}
+        edits.forEach(({rowIndex, column, value}) => {
+            rows[rowIndex] = {...(rows[rowIndex] ?? editedData[rowIndex]), [column]: value}
+        })
+        const errors: Record<number, Record<string, string>> = {}
+        Object.entries(rows).forEach(([rowIndex, row]) => {
+            errors[Number(rowIndex)] = validateRow(row, entity, schemas)
+        })
+        setRowErrors((prev)=>({...prev, ...errors}))
+    }
+    
+    function handleViewChange(view: GridViewSettings){
+        if(!entity) return
+        const views = {...gridViews, [entity]: view}
+        setGridViews(views)
+        saveGridViews(views)
     }
     
     function handleCellBlur(){
-        dispatch(setData(editedData))
+        if(entity) dispatch(commitEdits(entity))
+    }
+
+    function handleTabChange(entityType: EntityType){
+        if(entityType === entity) return
+        dispatch(setActiveEntity(entityType))
+        setSelectedRow(null)
+        setSearchResult(null)
+        setRowErrors({})
+    }
+    
+    function handleSuppressIssue(error: ValidationError){
+        if(!entity) return
+        const issue = toSuppressedIssue(error, entity, editedData, schemas)
+        setSuppressedIssues(prev => prev.some(hidden => isSameIssue(hidden, issue)) ? prev : [...prev, issue])
+    }
+    
+    function handleShowHiddenIssues(){
+        setSuppressedIssues(prev => prev.filter(issue => issue.entity !== entity))
+    }
+    
+    // Counted without the hidden issues, like the grid and the summary
+    function visibleErrorCount(entityType: EntityType, result: ValidationResult){
+        return hideSuppressedIssues(result, suppressedIssues, entityType, tables[entityType]?.editedData ?? [], schemas).summary.totalErrors
     }
     
     function handleErrorClick(error: ValidationError) {
         if (error.rowIndex !== undefined) {
+            // The grid scrolls the selected row into view
             setSelectedRow(error.rowIndex);
-            // Scroll to the row
-            const rowElement = document.getElementById(`row-${error.rowIndex}`);
-            if (rowElement) {
-                rowElement.scrollIntoView({ behavior: 'smooth', block: 'center' });
-            }
         }
     }
     
     function handleSearchResult(result: AISearchResult) {
         setSearchResult(result);
-        if (result.matchedRows.length > 0) {
-            const filtered = result.matchedRows.map(index => editedData[index]);
-            setFilteredData(filtered);
-        } else {
-            setFilteredData([]);
-        }
     }
     
     function handleClearSearch() {
         setSearchResult(null);
-        setFilteredData([]);
     }
     
-    function handleApplyAISuggestions(newData: any[]) {
-        setEditedData(newData);
-        dispatch(setData(newData));
+    function handleApplyAISuggestions(newData: any[], label: string) {
+        if (!entity) return;
+        dispatch(setTableData({entity, data: newData, label}));
     }
     
-    function updateCrossEntityData(entityType: string | null, data: any[]) {
-        if (!entityType) return;
-        
-        setCrossEntityData(prev => ({
-            ...prev,
-            [entityType]: data
-        }));
+    function handleReplace(changes: CellPatch[], label: string){
+        if(!entity) return
+        dispatch(setTableData({entity, data: applyReplacements(editedData, changes), label}))
+    }
+    
+    function handleRowAction(action: RowAction, rowIndex: number){
+        if(!entity) return
+        const edit: RowEdit = applyRowAction(editedData, action, rowIndex)
+        dispatch(setTableData({entity, data: edit.data, label: edit.label}))
+        remapRowState(entity, edit.mapIndex)
+    }
+    
+    // Row indices held outside the table follow their rows instead of pointing at the wrong ones
+    function remapRowState(entityType: EntityType, mapIndex: RowIndexMap){
+        const result = tables[entityType]?.validationResult
+        if(result) dispatch(setValidationResult({entity: entityType, result: remapValidationResult(result, mapIndex)}))
+        if(entityType === entity){
+            setRowErrors(prev => remapRowRecord(prev, mapIndex))
+            setSelectedRow(prev => prev === null ? null : mapIndex(prev))
+            setSearchResult(prev => prev && {...prev, matchedRows: remapRowIndices(prev.matchedRows, mapIndex)})
+        }
+        setPendingMerges(prev => prev.map(pending => pending.source.entity === entityType ? {...pending, preview: remapMergePreview(pending.preview, mapIndex)} : pending))
+    }
+    
+    function handleAddColumn(column: string){
+        if(!entity) return
+        dispatch(setTableData({entity, data: addColumn(editedData, column), label: `Add column ${column}`}))
+    }
+    
+    function handleDeleteColumn(column: string){
+        if(!entity) return
+        dispatch(setTableData({entity, data: deleteColumn(editedData, column), label: `Delete column ${column}`}))
     }
     
     function handleRulesChange(rules: BusinessRule[]) {
@@ -172,133 +510,363 @@ export default function Home() {
         }
     }
 
+    // Diff a newer file of the active entity against the current table without loading it
+    async function handleCompareFile(file: File){
+        const table = entity ? tables[entity] : undefined
+        const idColumn = entity ? getIdField(schemas, entity) : null
+        if(!entity || !table || !idColumn) return
+        try{
+            // Parsed like an import with the detected CSV settings, malformed lines take their proposed repair
+            const id = createImportId("file")
+            const csvOptions = file.name.toLowerCase().endsWith(".csv") ? {[id]: (await sniffCsvFile(file, id)).detected} : {}
+            const sources = await streamImportFiles([{id, file}], schemas, {}, {csvOptions}).result
+            const found = sources.find(s => s.entity === entity) ?? sources.find(s => s.rowCount > 0)
+            if(!found){
+                alert("No rows found in " + file.name)
+                return
+            }
+            const source = (found.diagnostics ?? []).reduce((next, d) => resolveDiagnostic(next, d.id, true).source, found)
+            const incoming = getSourceRowsAs(source, entity, table.headerMapping, schemas)
+            const diff = buildVersionDiff(
+                editedData,
+                incoming,
+                idColumn,
+                validateData(editedData, entity, crossEntityData, schemas, columnProfiles ?? undefined),
+                validateData(incoming, entity, crossEntityData, schemas)
+            )
+            setVersionDiff({fileName: file.name, entity, diff})
+        }catch(err: any){
+            alert("Could not read file: " + err.message)
+        }
+    }
+    function handleExportVersionDiff(){
+        if(!versionDiff) return
+        const blob = new Blob([versionDiffToCsv(versionDiff.diff)], { type: 'text/csv' })
+        const url = URL.createObjectURL(blob)
+        const a = document.createElement('a')
+        a.href = url
+        a.download = `${versionDiff.entity.replace(/^custom:/, '')}-changes.csv`
+        document.body.appendChild(a)
+        a.click()
+        document.body.removeChild(a)
+        URL.revokeObjectURL(url)
+    }
+
     function handleDrop(e:React.DragEvent<HTMLDivElement>){
         e.preventDefault()
         if(e.dataTransfer.files && e.dataTransfer.files.length > 0){
-            handleFile(e.dataTransfer.files[0])
+            handleFiles(Array.from(e.dataTransfer.files))
         }
     }
     function handleDragOver(e: React.DragEvent<HTMLDivElement>){
         e.preventDefault()
     }
-    function handleFile(file: File){
-        dispatch(setFile(file))
-        const fileName = file.name.toLowerCase();
-        if(fileName.endsWith(".csv")){
-            Papa.parse(file,{
-                header: true,
-                skipEmptyLines: true,
-                complete: (results) => {
-                    dispatch(setData(results.data))
-                    dispatch(clearValidation())
-                    if(results.data.length > 0){
-                        const headers = Object.keys(results.data[0] as object)
-                        const detected = detectEntity(headers)
-                        setEntity(detected)
-                        
-                        // Update cross-entity data based on detected entity
-                        updateCrossEntityData(detected, results.data)
-                    }
-                },
-                error: (err) => {
-                    alert("CSV parsing error: " + err.message)
-                }
-            })
-        }else if ( fileName.endsWith(".xlsx") || fileName.endsWith(".xls")){
-            const reader = new FileReader();
-            reader.onload = (e) => {
-                const data = new Uint8Array(e.target?.result as ArrayBuffer)
-                const workbook = XLSX.read(data, {type: "array"})
-                const sheetName = workbook.SheetNames[0]
-                const worksheet = workbook.Sheets[sheetName];
-                const jsonData = XLSX.utils.sheet_to_json(worksheet, {defval: ""})
-                dispatch(setData(jsonData))
-                dispatch(clearValidation())
-                if(jsonData.length > 0){
-                    const headers = Object.keys(jsonData[0] as object)
-                    const detected = detectEntity(headers)
-                    setEntity(detected)
-                    
-                    // Update cross-entity data based on detected entity
-                    updateCrossEntityData(detected, jsonData)
-                }
-            }
-            reader.readAsArrayBuffer(file)
-        }else{
-            alert("Unsupported file type. Please upload a CSV or XLSX file.")
+    // Files get a preflight to confirm CSV delimiter and encoding or the table layout of each sheet before parsing
+    async function handleFiles(files: File[]){
+        setSelectedFileNames(files.map(f => f.name))
+        // Two files of the same name keep their own settings
+        const uploads = files.map(file => ({id: createImportId("file"), file}))
+        const csvFiles = uploads.filter(({file}) => file.name.toLowerCase().endsWith(".csv"))
+        const workbookFiles = uploads.filter(({file}) => /\.xlsx?$/i.test(file.name))
+        if(csvFiles.length === 0 && workbookFiles.length === 0){
+            startImport(uploads)
+            return
         }
-    }
-
-    function detectEntity(headers: string[]){
-        const scores = Object.entries(schemas).map(([entity,fields])=>({
-            entity,
-            score: Object.keys(fields).filter(f => headers.some(h => h.toLowerCase().includes(f.toLowerCase()))).length,
-        }))
-        scores.sort((a,b) => b.score - a.score)
-        if(scores[0].score === 0 || (scores[0].score === scores[1]?.score)){
-            return null;
+        try{
+            const previews = await Promise.all(workbookFiles.map(({id, file}) => previewWorkbook(file, id)))
+            setCsvPreflights(await Promise.all(csvFiles.map(({id, file}) => sniffCsvFile(file, id))))
+            setSheetPreviews(previews.flat())
+            setPendingFiles(uploads)
+        }catch(err: any){
+            alert("Could not read file: " + err.message)
         }
-        return scores[0].entity
-    }
-    function remapDataRows(data: any[], headerMap: Record<string,string>) {
-        return data.map((row)=>{
-            const newRow: Record<string,any> = {}
-            Object.entries(row).forEach(([key, value])=>{
-                const mappedKey = headerMap[key] || key;
-                newRow[mappedKey] = value
-            })
-            return newRow
+    }
+    function handleCsvOptionsChange(fileId: string, options: CsvParseOptions){
+        setCsvPreflights(prev => prev.map(p => p.fileId === fileId ? {...p, options} : p))
+    }
+    function handleSheetLayoutChange(fileId: string, sheetName: string, layout: SheetLayout){
+        setSheetPreviews(prev => prev.map(p => p.fileId === fileId && p.sheetName === sheetName ? {...p, layout} : p))
+    }
+    function handlePreflightConfirm(){
+        const csvOptions = Object.fromEntries(csvPreflights.map(p => [p.fileId, p.options]))
+        const sheetLayouts: Record<string, Record<string, SheetLayout>> = {}
+        sheetPreviews.forEach(p => {
+            sheetLayouts[p.fileId] = {...sheetLayouts[p.fileId], [p.sheetName]: p.layout}
         })
+        const files = pendingFiles
+        clearPreflight()
+        startImport(files, {csvOptions, sheetLayouts})
     }
-    function validate(row: any,entity: string){
-        const errors: Record<string,string> = {}
-        if(!entity) return errors;
-        const requiredFields = Object.keys(schemas[entity as keyof typeof schemas])
-        requiredFields.forEach((field)=>{
-            if(!row[field] || row[field].toString().trim() === ""){
-                errors[field] = "Required"
-            }
-            if(field === "email" && row[field]){
-                if (!/^[\w-.]+@([\w-]+\.)+[\w-]{2,4}$/.test(row[field])) {
-                    errors[field] = "Invalid email";
+    function handlePreflightCancel(){
+        clearPreflight()
+        setSelectedFileNames([])
+    }
+    function clearPreflight(){
+        setPendingFiles([])
+        setCsvPreflights([])
+        setSheetPreviews([])
+    }
+    async function startImport(files: UploadedFile[], settings: ImportSettings = {}){
+        activeImportRef.current?.cancel()
+        setImportSources([])
+        setSourceChoices({})
+        setReviewSource(null)
+
+        // Tables and history as they were, put back if the import is cancelled
+        const previous = {tables, activeEntity, history, historyPosition}
+        // The first source of each entity fills its table while the rest of the file streams in
+        const seenEntities = new Set<EntityType>()
+        const streamedSources = new Map<string, EntityType>()
+        const streaming = streamImportFiles(files, schemas, {
+            onSource: source => {
+                setImportSources(prev => [...prev, source])
+                // Tables being merged into keep their rows until the merge is applied
+                if(!source.entity || seenEntities.has(source.entity) || (mergeMode && tables[source.entity])) return
+                seenEntities.add(source.entity)
+                if(source.mappingConfirmed){
+                    streamedSources.set(source.id, source.entity)
+                    dispatch(loadTables([toTablePayload(source)]))
                 }
+            },
+            onRows: (source, rows) => {
+                const entityType = streamedSources.get(source.id)
+                if(entityType) dispatch(appendTableRows({entity: entityType, rows: applyHeaderMapping(rows, source.mapping)}))
+            },
+            onProgress: setImportProgress
+        }, settings)
+        activeImportRef.current = streaming
+
+        try{
+            const sources = await streaming.result
+            if(sources.every(source => source.note === "Unsupported file type")){
+                alert("Unsupported file type. Please upload CSV, XLSX or JSON files.")
+                return
             }
-        })
-        return errors;
-    }
-    function mapHeaders(uploadHeader: string[], entity: string) {
-        const entitySchema = schemas[entity as keyof typeof schemas]
-        const headerMap: Record<string, string> = {}
+            setImportSources(sources)
 
-        uploadHeader.forEach((header)=>{
-            let found = false;
-            for(const [canonical, variations] of Object.entries(entitySchema)){
-                if(
-                    variations.some((variant)=>variant.toLowerCase().replace(/\s+/g,"") ===
-                     header.toLowerCase().replace(/\s+/g,""))
-                ){
-                    headerMap[header] = canonical
-                    found = true
-                    break
+            // Fill every entity table whose columns mapped exactly, the rest wait for review
+            const resolved = Object.values(resolveSources(sources)) as ImportedSource[]
+            const confirmed = resolved.filter(source => source.mappingConfirmed && !streamedSources.has(source.id))
+            loadOrMerge(confirmed)
+            setReviewSource(resolved.find(source => !source.mappingConfirmed)?.id ?? null)
+        }catch(err: any){
+            if(isImportCancelled(err)){
+                // Partially streamed tables give way to the tables they replaced, truncated data is not left behind
+                if(streamedSources.size > 0){
+                    const replaced: Partial<Record<EntityType, EntityTable | null>> = {}
+                    streamedSources.forEach(entityType => { replaced[entityType] = previous.tables[entityType] ?? null })
+                    dispatch(revertTables({...previous, tables: replaced}))
                 }
+                if(activeImportRef.current === streaming){
+                    setImportSources([])
+                    setSelectedFileNames([])
+                }
+            }else{
+                alert("File parsing error: " + err.message)
             }
-            if(!found){
-                headerMap[header] = header
+        }finally{
+            if(activeImportRef.current === streaming){
+                activeImportRef.current = null
+                setImportProgress(null)
             }
+        }
+    }
+    function handleCancelImport(){
+        activeImportRef.current?.cancel()
+    }
+    function toTablePayload(source: ImportedSource): TablePayload {
+        return {entity: source.entity!, file: source.file ?? null, rows: getSourceRows(source), mapping: source.mapping}
+    }
+    // In merge mode a source for an entity that already has a table is previewed as a merge by ID
+    function loadOrMerge(sources: ImportedSource[]){
+        const merges: {source: ImportedSource; preview: MergePreview}[] = []
+        const loads = sources.filter(source => {
+            const table = tables[source.entity!]
+            const idColumn = getIdField(schemas, source.entity!)
+            if(!mergeMode || !table || !idColumn || !(idColumn in (table.editedData[0] ?? {}))) return true
+            merges.push({source, preview: buildMergePreview(table.editedData, table.importedData, getSourceRows(source), idColumn)})
+            return false
+        })
+        const confirmed = loads.filter(source => confirmReplaceTable(source.entity!))
+        if(confirmed.length > 0) dispatch(loadTables(confirmed.map(toTablePayload)))
+        if(merges.length > 0){
+            setPendingMerges(prev => [...prev.filter(p => !merges.some(m => m.source.id === p.source.id)), ...merges])
+        }
+    }
+    // Loading over an edited table drops its edits together with their history
+    function confirmReplaceTable(entityType: EntityType){
+        if(!tables[entityType] || !history.some(entry => entry.entity === entityType)) return true
+        return window.confirm(`Replace the ${schemas[entityType]?.label ?? entityType} table? Its edits and their undo history will be lost.`)
+    }
+    function handleApplyMerge(choices: Record<string, ConflictChoice>, removeMissing: boolean){
+        const pending = pendingMerges[0]
+        const table = pending && tables[pending.source.entity!]
+        if(!pending || !table) return
+        const result = applyMerge(table.editedData, table.importedData, getSourceRows(pending.source), pending.preview, choices, removeMissing)
+        dispatch(mergeTableRows({entity: pending.source.entity!, rows: result.rows, importedData: result.importedData, label: `Merge ${pending.source.source}`}))
+        setPendingMerges(prev => prev.slice(1))
+    }
+    function loadSource(source: ImportedSource){
+        if(source.mappingConfirmed){
+            loadOrMerge([source])
+        }else{
+            setReviewSource(source.id)
+        }
+    }
+    function handleSourceChoice(entityType: EntityType, sourceId: string){
+        setSourceChoices(prev => ({...prev, [entityType]: sourceId}))
+        const source = importSources.find(s => s.id === sourceId)
+        if(source) loadSource(source)
+    }
+    function handleAssignEntity(sourceId: string, entityType: EntityType){
+        const source = importSources.find(s => s.id === sourceId)
+        if(!source) return
+        const assigned = assignSourceEntity(source, entityType, schemas)
+        setImportSources(prev => prev.map(s => s.id === sourceId ? assigned : s))
+        setSourceChoices(prev => ({...prev, [entityType]: sourceId}))
+        loadSource(assigned)
+    }
+    // A source that fits none of the entities becomes a new entity with its own schema
+    function handleCreateCustomEntity(sourceId: string, label: string){
+        const source = importSources.find(s => s.id === sourceId)
+        if(!source) return
+        const {source: assigned, registry} = assignCustomEntity(source, label, schemas)
+        dispatch(setSchemas(registry))
+        setImportSources(prev => prev.map(s => s.id === sourceId ? assigned : s))
+        setSourceChoices(prev => ({...prev, [assigned.entity!]: sourceId}))
+        loadSource(assigned)
+    }
+    function handleConfirmMapping(mapping: HeaderMapping[]){
+        const source = importSources.find(s => s.id === reviewSource)
+        if(!source?.entity) return
+        const confirmed = confirmSourceMapping(source, mapping)
+        const table = tables[source.entity]
+        // A table loaded from this source keeps its edits, only its columns are renamed
+        const remapped = table && isTableFromSource(source) ? remapMappedRows(table.editedData, table.headerMapping, mapping) : null
+        if(table && remapped){
+            const importedData = remapMappedRows(table.importedData, table.headerMapping, mapping)!
+            dispatch(remapTableColumns({entity: source.entity, data: remapped, importedData, mapping, label: `Change header mapping of ${source.source}`}))
+        }else{
+            loadOrMerge([confirmed])
+        }
+        if(source.rows.length > 0) rememberMapping(Object.keys(source.rows[0]), source.entity, mapping)
+        const sources = importSources.map(s => s.id === confirmed.id ? confirmed : s)
+        const choices = {...sourceChoices, [source.entity]: source.id}
+        setImportSources(sources)
+        setSourceChoices(choices)
 
+        // Move on to the next source still waiting for review
+        const next = (Object.values(resolveSources(sources, choices)) as ImportedSource[]).find(s => !s.mappingConfirmed)
+        setReviewSource(next?.id ?? null)
+    }
+    // The loaded table of the source's entity was filled from this source
+    function isTableFromSource(source: ImportedSource){
+        const table = source.entity ? tables[source.entity] : undefined
+        return !!table?.file && !!source.file
+            && table.file.name === source.file.name
+            && table.file.sheetName === source.file.sheetName
+            && table.file.lastModified === source.file.lastModified
+    }
+    function handleResolveDiagnostics(sourceId: string, ids: number[], accept: boolean){
+        const source = importSources.find(s => s.id === sourceId)
+        if(!source) return
+        const table = source.entity && isTableFromSource(source) ? tables[source.entity] : undefined
+        let updated = source
+        let data = table?.editedData ?? []
+        let importedData = table?.importedData ?? []
+        const maps: RowIndexMap[] = []
+        const labels: string[] = []
+        ids.forEach(id => {
+            const {source: next, inserted} = resolveDiagnostic(updated, id, accept)
+            updated = next
+            // A table already loaded from the source gets the repaired lines where they were in the file
+            if(!table || !inserted) return
+            const edit = insertImportedRows(data, importedData, inserted.index, applyHeaderMapping(inserted.rows, source.mapping))
+            data = edit.data
+            importedData = edit.importedData
+            maps.push(edit.mapIndex)
+            labels.push(edit.label)
         })
-        return headerMap;
+        setImportSources(prev => prev.map(s => s.id === sourceId ? updated : s))
+        if(table && maps.length > 0){
+            const label = labels.length === 1 ? labels[0] : `Repaired ${labels.length} CSV lines`
+            dispatch(mergeTableRows({entity: source.entity!, rows: data, importedData, label}))
+            remapRowState(source.entity!, composeIndexMaps(maps))
+        }
     }
+    // Ranges copied from a spreadsheet, pasted on the paste target or the grid
+    function handlePaste(e: React.ClipboardEvent){
+        if(!isMultiCellPaste(e.clipboardData)) return
+        const cells = readClipboardCells(e.clipboardData)
+        if(!cells) return
+        e.preventDefault()
+        setPastedTable(toPastedTable(cells, schemas))
+    }
+    function handlePasteCreateTable(){
+        if(!pastedTable) return
+        const source = classifyRows(`Pasted rows (${new Date().toLocaleTimeString()})`, pastedToRows(pastedTable), schemas)
+        setImportSources(prev => [...prev, source])
+        // Unclassified rows wait in the import summary for an entity to be picked
+        if(source.entity){
+            setSourceChoices(prev => ({...prev, [source.entity!]: source.id}))
+            loadSource(source)
+        }
+        setPastedTable(null)
+    }
+    function handlePasteAppend(){
+        if(!pastedTable || !entity) return
+        const columns = Object.keys(editedData[0] ?? {})
+        const alignment = alignPastedColumns(pastedTable, columns, entity, schemas)
+        const rows = alignPastedRows(pastedTable, alignment, columns)
+        dispatch(appendTableRows({entity, rows, label: `Paste ${rows.length} rows`}))
+        setPastedTable(null)
+    }
+    function handleForgetMapping(){
+        const source = importSources.find(s => s.id === reviewSource)
+        if(!source?.entity || source.rows.length === 0) return
+        forgetMapping(Object.keys(source.rows[0]))
+
+        // Fall back to fresh proposals for the same entity
+        const proposed = {...assignSourceEntity(source, source.entity, schemas), mappingConfirmed: false}
+        setImportSources(prev => prev.map(s => s.id === proposed.id ? proposed : s))
+    }
+
+    function handleSchemasChange(updated: SchemaRegistry){
+        dispatch(setSchemas(updated))
+    }
+
   return (
     <main className="font-sans p-8 max-w-screen mx-auto bg-gray-900 min-h-screen text-gray-100">
       {/* Header */}
       <header className="mb-10 text-center">
         <h1 className="text-4xl font-extrabold mb-3 text-white tracking-tight">AI Spreadsheet Cleaner</h1>
         <p className="text-gray-400 text-lg">
-          Upload your messy CSV/XLSX files and let AI help you clean, validate, and export them with ease.
+          Upload your messy CSV/XLSX/JSON files and let AI help you clean, validate, and export them with ease.
         </p>
       </header>
 
+      {showRestorePrompt && (
+        <WorkspaceRestorePrompt
+          workspaces={savedWorkspaces.filter(saved => saved.id !== workspace?.id)}
+          currentId={lastOpenedId}
+          onRestore={handleOpenWorkspace}
+          onStartFresh={() => setShowRestorePrompt(false)}
+        />
+      )}
+      {workspace && (
+        <WorkspaceBar
+          workspace={workspace}
+          workspaces={savedWorkspaces}
+          lastSavedAt={lastSavedAt}
+          onRename={name => setWorkspace({...workspace, name})}
+          onOpen={handleOpenWorkspace}
+          onNew={handleNewWorkspace}
+          onDelete={handleDeleteWorkspace}
+          onExportProject={handleExportProject}
+          onImportProject={handleImportProject}
+        />
+      )}
+
       {/* Upload Area */}
       <section className="mb-8 border border-gray-800 p-6 rounded-xl shadow-sm bg-gray-800 flex flex-col items-center"
        onDrop={handleDrop}
@@ -310,20 +878,97 @@ export default function Home() {
                 fileInputRef.current?.click()
             }}
         >
-          Upload CSV/XLSX
+          Upload CSV/XLSX/JSON
         </button>
-        <input type="file" ref={fileInputRef} accept=".csv, application/vnd.openxmlformats-officedocument.spreadsheet.sheet, application/vnd.ms-excel" className="hidden" 
+        <input type="file" ref={fileInputRef} multiple accept=".csv, .xlsx, .xls, .json, .ndjson, .jsonl, application/vnd.openxmlformats-officedocument.spreadsheet.sheet, application/vnd.ms-excel, application/json" className="hidden" 
         onChange={(e)=>{
             if(e.target.files && e.target.files.length > 0){
-                handleFile(e.target.files[0])
+                handleFiles(Array.from(e.target.files))
+                e.target.value = ""
             }
         }} />
          <div className="text-gray-500 text-sm mt-2">
           or <span className="underline">drag &amp; drop files here</span>
         </div>
-        {file && (
+        <label className="mt-3 flex items-center gap-2 text-sm text-gray-400">
+          <input
+            type="checkbox"
+            checked={mergeMode}
+            onChange={e => setMergeMode(e.target.checked)}
+          />
+          Merge into existing tables by ID instead of replacing them
+        </label>
+        {selectedFileNames.length > 0 && (
           <div className="mt-4 text-green-400 text-sm">
-            Selected file: {file.name}
+            {selectedFileNames.length > 1 ? "Selected files" : "Selected file"}: {selectedFileNames.join(", ")}
+          </div>
+        )}
+        <ImportPreflightPanel
+          csvPreflights={csvPreflights}
+          sheetPreviews={sheetPreviews}
+          onCsvOptionsChange={handleCsvOptionsChange}
+          onSheetLayoutChange={handleSheetLayoutChange}
+          onConfirm={handlePreflightConfirm}
+          onCancel={handlePreflightCancel}
+        />
+        <PasteImport
+          table={pastedTable}
+          schemas={schemas}
+          activeEntity={entity}
+          targetColumns={Object.keys(editedData[0] ?? {})}
+          onPaste={handlePaste}
+          onHeaderToggle={hasHeader => setPastedTable(prev => prev && {...prev, hasHeader})}
+          onCreateTable={handlePasteCreateTable}
+          onAppend={handlePasteAppend}
+          onCancel={() => setPastedTable(null)}
+        />
+        {importProgress && (
+          <ImportProgressBar progress={importProgress} onCancel={handleCancelImport} />
+        )}
+        {pendingMerges.length > 0 && (
+          <MergePreviewPanel
+            key={pendingMerges[0].source.id}
+            preview={pendingMerges[0].preview}
+            source={pendingMerges[0].source.source}
+            entityLabel={schemas[pendingMerges[0].source.entity!]?.label ?? pendingMerges[0].source.entity!}
+            onApply={handleApplyMerge}
+            onCancel={() => setPendingMerges(prev => prev.slice(1))}
+          />
+        )}
+        <ImportSummary
+          sources={importSources}
+          choices={sourceChoices}
+          schemas={schemas}
+          onChoiceChange={handleSourceChoice}
+          onAssignEntity={handleAssignEntity}
+          onCreateCustomEntity={handleCreateCustomEntity}
+          onReviewMapping={setReviewSource}
+        />
+        <ParseDiagnosticsPanel
+          sources={importSources}
+          onResolve={(sourceId, id, accept) => handleResolveDiagnostics(sourceId, [id], accept)}
+          onResolveAll={(sourceId, accept) => handleResolveDiagnostics(sourceId, importSources.find(s => s.id === sourceId)?.diagnostics?.map(d => d.id) ?? [], accept)}
+        />
+        {sourceUnderReview && (
+          <div className="mt-4 w-full max-w-4xl">
+            <HeaderMappingReview
+              source={sourceUnderReview}
+              fields={sourceUnderReview.entity ? schemas[sourceUnderReview.entity].fields.map(field => field.name) : []}
+              onConfirm={handleConfirmMapping}
+              onCancel={() => setReviewSource(null)}
+              onForget={handleForgetMapping}
+            />
+          </div>
+        )}
+        <button
+          onClick={() => setShowSchemaEditor(!showSchemaEditor)}
+          className="mt-4 text-sm text-gray-400 hover:text-gray-200 underline"
+        >
+          {showSchemaEditor ? "Hide" : "⚙️ Edit"} entity schemas
+        </button>
+        {showSchemaEditor && (
+          <div className="mt-4 w-full max-w-4xl">
+            <SchemaEditor schemas={schemas} onSchemasChange={handleSchemasChange} />
           </div>
         )}
       </section>
@@ -331,89 +976,126 @@ export default function Home() {
       {/* Data Grid Placeholder */}
       <section className="mb-8 border border-gray-800 p-6 rounded-xl shadow-sm bg-gray-800">
         <h2 className="text-lg font-semibold mb-3 text-gray-200">2. Data Grid</h2>
+        {(Object.keys(tables) as EntityType[]).length > 0 && (
+          <div className="flex items-end justify-between mb-3 border-b border-gray-700">
+            <div className="flex gap-1">
+              {tabs.map(tab => {
+                const table = tables[tab.entity]
+                return (
+                  <button
+                    key={tab.entity}
+                    onClick={() => handleTabChange(tab.entity)}
+                    disabled={!table}
+                    className={`px-4 py-2 text-sm rounded-t-lg transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${
+                      entity === tab.entity
+                        ? 'bg-gray-900 text-white border border-b-0 border-gray-700'
+                        : 'text-gray-400 hover:text-gray-200'
+                    }`}
+                  >
+                    {tab.label}
+                    {table && <span className="ml-2 text-xs text-gray-500">{table.editedData.length}</span>}
+                    {table?.validationResult && visibleErrorCount(tab.entity, table.validationResult) > 0 && (
+                      <span className="ml-1 text-xs text-red-400">● {visibleErrorCount(tab.entity, table.validationResult)}</span>
+                    )}
+                  </button>
+                )
+              })}
+            </div>
+            {activeTable?.file && (
+              <div className="text-xs text-gray-500 pb-2">
+                {activeTable.file.name}
+                {activeTable.file.sheetName && ` / ${activeTable.file.sheetName}`}
+                {` • ${(activeTable.file.size / 1024).toFixed(1)} KB`}
+              </div>
+            )}
+          </div>
+        )}
         <div className="bg-gray-900 p-4 rounded-lg min-h-[100px] border border-dashed border-gray-700 overflow-x-auto">
-          {Array.isArray(data) && data.length > 0 ? (
-            <table className="min-w-full text-xs text-left text-gray-300">
-              <thead>
-                <tr>
-                  {Object.keys(data[0]).map((key) => (
-                    <th key={key} className="px-3 py-2 border-b border-gray-700 font-semibold">
-                      {key}
-                    </th>
-                  ))}
-                </tr>
-              </thead>
-              <tbody>
-                {(searchResult ? filteredData : editedData).map((row, idx) => {
-                  const originalIndex = searchResult ? searchResult.matchedRows[idx] : idx;
-                  const cellErrors = validationResult ? getCellErrors(validationResult.errors, originalIndex, '') : [];
-                  const hasValidationErrors = cellErrors.length > 0;
-                  const isSearchResult = searchResult && searchResult.matchedRows.includes(originalIndex);
-                  
-                  return (
-                    <tr 
-                      key={originalIndex} 
-                      id={`row-${originalIndex}`}
-                      className={`hover:bg-gray-800 transition-colors ${
-                        selectedRow === originalIndex ? 'bg-blue-900/30 border-l-4 border-l-blue-500' : ''
-                      } ${
-                        hasValidationErrors ? 'bg-red-900/20 border-l-4 border-l-red-500' : ''
-                      } ${
-                        isSearchResult ? 'bg-green-900/20 border-l-4 border-l-green-500' : ''
-                      }`}
-                    >
-                      {Object.keys(editedData[0]).map((key) => {
-                        const cellValidationErrors = validationResult ? getCellErrors(validationResult.errors, originalIndex, key) : [];
-                        const hasCellErrors = cellValidationErrors.length > 0;
-                        
-                        return (
-                          <td key={key} className="px-3 py-2 border-b border-gray-800 relative">
-                            <input
-                              className={`bg-transparent text-gray-100 border-b w-full focus:outline-none ${
-                                rowErrors[originalIndex]?.[key] || hasCellErrors
-                                  ? "border-red-500"
-                                  : "border-gray-700"
-                              }`}
-                              value={row[key] ?? ""}
-                              onChange={(e) => handleEditing(originalIndex, key, e.target.value)}
-                              onBlur={handleCellBlur}
-                              title={rowErrors[originalIndex]?.[key] || cellValidationErrors.map(e => e.message).join(', ') || ""}
-                            />
-                            {(rowErrors[originalIndex]?.[key] || hasCellErrors) && (
-                              <div className="text-xs text-red-400 mt-1">
-                                {rowErrors[originalIndex]?.[key] || cellValidationErrors[0]?.message}
-                                {cellValidationErrors.length > 1 && (
-                                  <span className="text-gray-500 ml-1">(+{cellValidationErrors.length - 1} more)</span>
-                                )}
-                              </div>
-                            )}
-                          </td>
-                        );
-                      })}
-                    </tr>
-                  );
-                })}
-              </tbody>
-            </table>
-          ) : (
-            <em className="text-gray-600">Data grid will appear here after upload.</em>
-          )}
+          <DataGrid
+            data={editedData}
+            validationResult={visibleResult}
+            rowErrors={rowErrors}
+            selectedRow={selectedRow}
+            searchResult={searchResult}
+            onEdit={handleEditing}
+            onCellBlur={handleCellBlur}
+            onPaste={handlePaste}
+            columnProfiles={columnProfiles}
+            view={(entity && gridViews[entity]) || defaultGridView}
+            onViewChange={handleViewChange}
+            fields={entity ? schemas[entity]?.fields ?? [] : []}
+            onRowAction={handleRowAction}
+            onAddColumn={handleAddColumn}
+            onDeleteColumn={handleDeleteColumn}
+            crossEntityData={crossEntityData}
+            onEditCells={handleEditCells}
+          />
         </div>
-        {Array.isArray(data) && data.length > 0 && (
-          <div className="mb-4">
-            <label className="mr-2 text-gray-300">Entity type:</label>
-            <select
-              value={entity ?? ""}
-              onChange={e => setEntity(e.target.value)}
-              className="bg-gray-700 text-gray-100 rounded px-2 py-1"
-            >
-              <option value="">Select entity</option>
-              <option value="client">Client</option>
-              <option value="worker">Worker</option>
-              <option value="task">Task</option>
-            </select>
-            {entity === null && (
-              <span className="ml-2 text-yellow-400">Please select entity type</span>
+        {entity && columnProfiles && (
+          <div className="mt-3">
+            <div className="flex gap-4">
+              <button
+                onClick={() => setShowFindReplace(!showFindReplace)}
+                className="text-sm text-gray-400 hover:text-gray-200 underline"
+              >
+                🔁 Find and replace
+              </button>
+              <button
+                onClick={() => setShowHistory(!showHistory)}
+                className="text-sm text-gray-400 hover:text-gray-200 underline"
+              >
+                🕘 History ({historyPosition}/{history.length})
+              </button>
+              <button
+                onClick={() => setShowColumnProfiles(!showColumnProfiles)}
+                className="text-sm text-gray-400 hover:text-gray-200 underline"
+              >
+                {showColumnProfiles ? "Hide" : "📊 Show"} column profiles
+              </button>
+              <button
+                onClick={() => compareInputRef.current?.click()}
+                className="text-sm text-gray-400 hover:text-gray-200 underline"
+              >
+                🔍 Compare with a newer file
+              </button>
+              <input type="file" ref={compareInputRef} accept=".csv, .xlsx, .xls, .json, .ndjson, .jsonl" className="hidden"
+                onChange={(e)=>{
+                    if(e.target.files && e.target.files.length > 0){
+                        handleCompareFile(e.target.files[0])
+                        e.target.value = ""
+                    }
+                }} />
+            </div>
+            {versionDiff && versionDiff.entity === entity && (
+              <VersionDiffPanel
+                diff={versionDiff.diff}
+                fileName={versionDiff.fileName}
+                entityLabel={schemas[entity].label}
+                onExport={handleExportVersionDiff}
+                onClose={() => setVersionDiff(null)}
+              />
+            )}
+            {showFindReplace && (
+              <FindReplaceDialog
+                data={editedData}
+                onApply={handleReplace}
+                onClose={() => setShowFindReplace(false)}
+              />
+            )}
+            {showHistory && (
+              <HistoryPanel
+                history={history}
+                position={historyPosition}
+                entityLabel={e => schemas[e as EntityType]?.label ?? e}
+                onJump={handleHistoryJump}
+                onClose={() => setShowHistory(false)}
+              />
+            )}
+            {showColumnProfiles && (
+              <ColumnProfilePanel
+                profiles={columnProfiles}
+                fields={schemas[entity].fields}
+              />
             )}
           </div>
         )}
@@ -432,8 +1114,11 @@ export default function Home() {
         </div>
         
         <ValidationSummary 
-          validationResult={validationResult} 
+          validationResult={visibleResult} 
           onErrorClick={handleErrorClick}
+          onSuppress={handleSuppressIssue}
+          hiddenCount={(validationResult?.errors.length ?? 0) - (visibleResult?.errors.length ?? 0)}
+          onShowHidden={handleShowHiddenIssues}
         />
       </section>
 
@@ -483,8 +1168,10 @@ export default function Home() {
         <section className="mb-8 border border-gray-800 p-6 rounded-xl shadow-sm bg-gray-800">
           <h2 className="text-lg font-semibold mb-3 text-gray-200">5. Business Rules</h2>
           <RuleBuilder 
+            key={workspaceKey}
             data={crossEntityData}
             onRulesChange={handleRulesChange}
+            initialRules={businessRules}
           />
         </section>
 
@@ -497,6 +1184,8 @@ export default function Home() {
             tasks={crossEntityData.tasks || []}
             rules={businessRules}
             onConfigChange={handlePrioritizationChange}
+            key={workspaceKey}
+            initialConfig={prioritizationConfig}
           />
         </section>
 
@@ -0,0 +1,95 @@
+import { FieldType } from './schemas';
+import { CrossEntityData } from './validation';
+import { parseCommaSeparated, parseJSON, parsePhaseRange } from './valueParsers';
+
+export type CellEditorKind = 'list' | 'phaseList' | 'json';
+
+// Field types that get a dedicated editor next to the plain text input
+export function getCellEditorKind(type: FieldType | undefined): CellEditorKind | null {
+  return type === 'list' || type === 'phaseList' || type === 'json' ? type : null;
+}
+
+const MIN_PHASES = 6;
+
+// List columns whose values come from another table, so autocomplete offers those too
+const sharedListValues: Record<string, { key: keyof CrossEntityData; column: string }[]> = {
+  skills: [{ key: 'workers', column: 'skills' }, { key: 'tasks', column: 'requiredskills' }],
+  requiredskills: [{ key: 'workers', column: 'skills' }, { key: 'tasks', column: 'requiredskills' }],
+  requestedtaskids: [{ key: 'tasks', column: 'taskid' }]
+};
+
+export const parseListValue = (value: any): string[] => parseCommaSeparated(value).map(token => String(token).trim());
+
+export const formatListValue = (tokens: string[]) => tokens.join(',');
+
+// Values used in the column and the tables it refers to, most used first
+export function getListSuggestions(data: any[], column: string, crossEntityData: CrossEntityData): string[] {
+  const counts = new Map<string, number>();
+  const count = (rows: any[] | undefined, source: string) => rows?.forEach(row => {
+    parseListValue(row[source]).forEach(token => counts.set(token, (counts.get(token) ?? 0) + 1));
+  });
+  count(data, column);
+  sharedListValues[column.toLowerCase()]?.forEach(({ key, column: source }) => count(crossEntityData[key], source));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([token]) => token);
+}
+
+// Phase cells hold JSON arrays like "[1,2,3]" or range syntax like "1-3,5"
+export function parsePhaseValue(value: any): number[] {
+  const parsed = parseJSON(value);
+  const phases = Array.isArray(parsed) ? parsed.map(Number) : parsePhaseRange(value);
+  return Array.from(new Set(phases.filter(phase => Number.isInteger(phase) && phase > 0))).sort((a, b) => a - b);
+}
+
+export const formatPhaseValue = (phases: number[]) => JSON.stringify([...phases].sort((a, b) => a - b));
+
+// Enough phases for the largest one used in the column
+export function getPhaseCount(data: any[], column: string): number {
+  return data.reduce((max, row) => Math.max(max, ...parsePhaseValue(row[column])), MIN_PHASES);
+}
+
+export interface JsonEntry {
+  key: string;
+  value: string;
+  // The value as the cell held it, entries added in the editor have none
+  original?: any;
+}
+
+const formatJsonValue = (value: any) => typeof value === 'string' ? value : JSON.stringify(value);
+
+// Key/value rows of a JSON object cell, null when the cell holds something else
+export function toJsonEntries(value: any): JsonEntry[] | null {
+  if (value === '' || value === null || value === undefined) return [];
+  const parsed = parseJSON(value);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) return null;
+  return Object.entries(parsed).map(([key, entry]) => ({ key, value: formatJsonValue(entry), original: entry }));
+}
+
+// Untouched values and edited strings keep their JSON type, other values are parsed when they can be
+function toJsonValue({ value, original }: JsonEntry): any {
+  if (original !== undefined && value === formatJsonValue(original)) return original;
+  if (typeof original === 'string') return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return value;
+  }
+}
+
+export function fromJsonEntries(entries: JsonEntry[]): string {
+  const object: Record<string, any> = {};
+  entries.filter(entry => entry.key.trim() !== '').forEach(entry => {
+    object[entry.key.trim()] = toJsonValue(entry);
+  });
+  return JSON.stringify(object);
+}
+
+export function checkJsonSyntax(text: string): string | null {
+  try {
+    JSON.parse(text);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid JSON';
+  }
+}
@@ -0,0 +1,122 @@
+import Papa from 'papaparse';
+import { SchemaRegistry, EntityType, defaultSchemas, toVariantMap } from './schemas';
+import { MIN_MAPPING_CONFIDENCE, scoreHeader, proposeHeaderMapping } from './headerMapping';
+
+// A range copied from a spreadsheet, before it is turned into rows
+export interface PastedTable {
+  cells: string[][];
+  hasHeader: boolean;
+}
+
+// How pasted columns line up with the columns of an existing table
+export interface PasteAlignment {
+  columns: Record<string, string>;
+  unmatched: string[];
+}
+
+const isNumeric = (value: string) => value.trim() !== '' && !isNaN(Number(value));
+
+function parseHtmlTable(html: string): string[][] | null {
+  if (typeof DOMParser === 'undefined' || !/<table/i.test(html)) return null;
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  const rows = Array.from(doc.querySelectorAll('tr')).map(tr =>
+    Array.from(tr.querySelectorAll('td, th')).map(cell => (cell.textContent || '').trim())
+  );
+  return rows.length > 0 ? rows : null;
+}
+
+// Spreadsheets quote cells holding tabs or line breaks, which Papa Parse understands
+function parseTsv(text: string): string[][] {
+  const results = Papa.parse<string[]>(text.replace(/\r?\n$/, ''), { delimiter: '\t', skipEmptyLines: true });
+  return results.data;
+}
+
+// Cells of the clipboard, preferring an HTML table over plain text
+export function readClipboardCells(clipboard: DataTransfer): string[][] | null {
+  const html = clipboard.getData('text/html');
+  const cells = (html && parseHtmlTable(html)) || parseTsv(clipboard.getData('text/plain'));
+  const filled = cells.filter(row => row.some(cell => cell.trim() !== ''));
+  return filled.length > 0 ? filled : null;
+}
+
+// Whether the clipboard holds more than a single value, so it should not go into one cell
+export function isMultiCellPaste(clipboard: DataTransfer): boolean {
+  const text = clipboard.getData('text/plain');
+  return /\t|\n/.test(text.replace(/\r?\n$/, '')) || /<table/i.test(clipboard.getData('text/html'));
+}
+
+// The first line is a header when it names known fields, or when it is all text above numeric columns
+export function detectHeaderRow(cells: string[][], registry: SchemaRegistry = defaultSchemas): boolean {
+  const [first, ...rest] = cells;
+  if (!first || first.some(cell => isNumeric(cell))) return false;
+
+  const variants = Object.values(toVariantMap(registry)).flatMap(fields => Object.values(fields));
+  if (first.some(cell => variants.some(v => scoreHeader(cell, v) >= MIN_MAPPING_CONFIDENCE))) return true;
+
+  return first.some((_, c) => rest.length > 0 && rest.every(row => isNumeric(row[c] ?? '')));
+}
+
+export function toPastedTable(cells: string[][], registry: SchemaRegistry = defaultSchemas): PastedTable {
+  return { cells, hasHeader: detectHeaderRow(cells, registry) };
+}
+
+// Header names of a pasted table, numbered columns when there is no header line
+export function getPastedHeaders(table: PastedTable): string[] {
+  const width = Math.max(0, ...table.cells.map(row => row.length));
+  return Array.from({ length: width }, (_, c) => {
+    const header = table.hasHeader ? (table.cells[0][c] || '').trim() : '';
+    return header || `Column ${c + 1}`;
+  });
+}
+
+export function pastedToRows(table: PastedTable): any[] {
+  const headers = getPastedHeaders(table);
+  const body = table.hasHeader ? table.cells.slice(1) : table.cells;
+  return body.map(values => Object.fromEntries(headers.map((header, c) => [header, values[c] ?? ''])));
+}
+
+const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Match pasted headers to table columns by name, then through the entity's header mapping.
+// Without a header line the columns are taken in the table's order.
+export function alignPastedColumns(
+  table: PastedTable,
+  targetColumns: string[],
+  entity: EntityType,
+  registry: SchemaRegistry = defaultSchemas
+): PasteAlignment {
+  const headers = getPastedHeaders(table);
+  const columns: Record<string, string> = {};
+
+  if (!table.hasHeader) {
+    headers.forEach((header, c) => {
+      if (targetColumns[c]) columns[header] = targetColumns[c];
+    });
+  } else {
+    const used = new Set<string>();
+    headers.forEach(header => {
+      const target = targetColumns.find(column => normalize(column) === normalize(header));
+      if (target && !used.has(target)) {
+        columns[header] = target;
+        used.add(target);
+      }
+    });
+    const rest = headers.filter(header => !columns[header]);
+    proposeHeaderMapping(rest, entity, registry).forEach(m => {
+      if (m.field && targetColumns.includes(m.field) && !used.has(m.field)) {
+        columns[m.header] = m.field;
+        used.add(m.field);
+      }
+    });
+  }
+
+  return { columns, unmatched: headers.filter(header => !columns[header]) };
+}
+
+// Pasted rows renamed to the table's columns, every table column present and unmatched columns dropped
+export function alignPastedRows(table: PastedTable, alignment: PasteAlignment, targetColumns: string[]): any[] {
+  const byTarget = Object.fromEntries(Object.entries(alignment.columns).map(([header, column]) => [column, header]));
+  return pastedToRows(table).map(row =>
+    Object.fromEntries(targetColumns.map(column => [column, byTarget[column] ? row[byTarget[column]] : '']))
+  );
+}
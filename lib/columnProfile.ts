@@ -0,0 +1,116 @@
+import { FieldType } from './schemas';
+import { parsePhaseRange, parseJSON } from './valueParsers';
+
+export interface ValueCount {
+  value: string;
+  count: number;
+}
+
+export interface ColumnProfile {
+  column: string;
+  inferredType: FieldType;
+  total: number;
+  nullCount: number;
+  distinctCount: number;
+  // Non-empty values that do not fit the inferred type
+  mismatchCount: number;
+  min: string | number | null;
+  max: string | number | null;
+  topValues: ValueCount[];
+}
+
+// Share of non-empty values that must fit a type before a column is inferred as that type
+export const TYPE_MATCH_THRESHOLD = 0.9;
+const TOP_VALUE_COUNT = 5;
+
+const EMAIL_PATTERN = /^[\w-.]+@([\w-]+\.)+[\w-]{2,4}$/;
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2}([T ][\d:.]+Z?)?|\d{1,2}[/.]\d{1,2}[/.]\d{2,4})$/;
+const PHASE_PATTERN = /^(\[\s*\d+(\s*,\s*\d+)*\s*\]|\d+(\s*-\s*\d+)?(\s*,\s*\d+(\s*-\s*\d+)?)*)$/;
+
+const isEmpty = (value: any) => value === undefined || value === null || String(value).trim() === '';
+
+// Stricter than checkFieldType so that, say, a column of names is not read as dates
+const typeMatchers: { type: FieldType; matches: (value: string) => boolean }[] = [
+  { type: 'integer', matches: value => /^-?\d+$/.test(value) },
+  { type: 'number', matches: value => !isNaN(Number(value)) },
+  { type: 'phaseList', matches: value => PHASE_PATTERN.test(value) },
+  { type: 'json', matches: value => /^\s*\{/.test(value) && parseJSON(value) !== null },
+  { type: 'email', matches: value => EMAIL_PATTERN.test(value) },
+  { type: 'date', matches: value => DATE_PATTERN.test(value) && !isNaN(Date.parse(value)) },
+  { type: 'list', matches: value => value.includes(',') && !/^\s*[\[{]/.test(value) },
+];
+
+export function matchesInferredType(value: any, type: FieldType): boolean {
+  if (type === 'string') return true;
+  const matcher = typeMatchers.find(m => m.type === type);
+  const text = String(value).trim();
+  // Single items still belong in a list column
+  if (type === 'list') return !/^\s*[\[{]/.test(text);
+  return matcher ? matcher.matches(text) : true;
+}
+
+// The first type that fits enough of the values, free text otherwise.
+// A list column needs a few values with commas, the rest may hold a single item.
+export function inferColumnType(values: any[]): FieldType {
+  const texts = values.filter(value => !isEmpty(value)).map(value => String(value).trim());
+  if (texts.length === 0) return 'string';
+
+  for (const { type, matches } of typeMatchers) {
+    if (type === 'list') {
+      const withCommas = texts.filter(matches).length;
+      const fitting = texts.filter(text => matchesInferredType(text, 'list')).length;
+      if (withCommas / texts.length >= 0.3 && fitting / texts.length >= TYPE_MATCH_THRESHOLD) return 'list';
+      continue;
+    }
+    if (texts.filter(matches).length / texts.length >= TYPE_MATCH_THRESHOLD) return type;
+  }
+  return 'string';
+}
+
+function getRange(texts: string[], type: FieldType): { min: string | number | null; max: string | number | null } {
+  let comparable: (string | number)[] = [];
+  if (type === 'integer' || type === 'number') {
+    comparable = texts.map(Number).filter(n => !isNaN(n));
+  } else if (type === 'phaseList') {
+    comparable = texts.flatMap(text => parsePhaseRange(parseJSON(text) ?? text));
+  } else if (type === 'date') {
+    const dates = texts.filter(text => !isNaN(Date.parse(text))).sort((a, b) => Date.parse(a) - Date.parse(b));
+    return { min: dates[0] ?? null, max: dates[dates.length - 1] ?? null };
+  } else if (type !== 'json') {
+    comparable = [...texts].sort();
+    return { min: comparable[0] ?? null, max: comparable[comparable.length - 1] ?? null };
+  }
+  if (comparable.length === 0) return { min: null, max: null };
+  const numbers = comparable as number[];
+  return { min: Math.min(...numbers), max: Math.max(...numbers) };
+}
+
+export function profileColumn(rows: any[], column: string): ColumnProfile {
+  const values = rows.map(row => row[column]);
+  const texts = values.filter(value => !isEmpty(value)).map(value => String(value).trim());
+  const inferredType = inferColumnType(texts);
+
+  const counts = new Map<string, number>();
+  texts.forEach(text => counts.set(text, (counts.get(text) || 0) + 1));
+  const topValues = Array.from(counts.entries())
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, TOP_VALUE_COUNT);
+
+  return {
+    column,
+    inferredType,
+    total: values.length,
+    nullCount: values.length - texts.length,
+    distinctCount: counts.size,
+    mismatchCount: texts.filter(text => !matchesInferredType(text, inferredType)).length,
+    ...getRange(texts, inferredType),
+    topValues
+  };
+}
+
+// Profile of every column, keyed by column name
+export function profileTable(rows: any[]): Record<string, ColumnProfile> {
+  const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+  return Object.fromEntries(columns.map(column => [column, profileColumn(rows, column)]));
+}
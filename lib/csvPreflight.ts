@@ -0,0 +1,133 @@
+import Papa from 'papaparse';
+
+export type CsvDelimiter = ',' | ';' | '\t' | '|';
+export type CsvEncoding = 'utf-8' | 'windows-1252' | 'iso-8859-1' | 'utf-16le' | 'utf-16be';
+export type ByteOrderMark = 'utf-8' | 'utf-16le' | 'utf-16be' | null;
+
+// Settings used to parse a CSV file, detected by sniffCsvFile and editable by the user
+export interface CsvParseOptions {
+  delimiter: CsvDelimiter;
+  encoding: CsvEncoding;
+  bom: ByteOrderMark;
+}
+
+export interface CsvPreflight {
+  fileId: string;
+  fileName: string;
+  sample: Uint8Array;
+  detected: CsvParseOptions;
+  options: CsvParseOptions;
+}
+
+export const csvDelimiters: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma (,)' },
+  { value: ';', label: 'Semicolon (;)' },
+  { value: '\t', label: 'Tab' },
+  { value: '|', label: 'Pipe (|)' },
+];
+
+export const csvEncodings: { value: CsvEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'windows-1252', label: 'Windows-1252' },
+  { value: 'iso-8859-1', label: 'ISO-8859-1 (Latin-1)' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+// BOM choices for when the detected one is wrong, its bytes are cut from the start of the file
+export const csvBoms: { value: ByteOrderMark; label: string }[] = [
+  { value: null, label: 'None' },
+  { value: 'utf-8', label: 'UTF-8 BOM' },
+  { value: 'utf-16le', label: 'UTF-16 LE BOM' },
+  { value: 'utf-16be', label: 'UTF-16 BE BOM' },
+];
+
+// Bytes read from the start of a file for sniffing and preview
+const SAMPLE_BYTES = 64 * 1024;
+const SNIFF_LINES = 20;
+
+export function detectBom(bytes: Uint8Array): ByteOrderMark {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+}
+
+export function bomLength(bom: ByteOrderMark): number {
+  if (bom === 'utf-8') return 3;
+  return bom ? 2 : 0;
+}
+
+// A UTF-16 BOM decides the encoding, otherwise anything that is not valid UTF-8 is treated as Windows-1252.
+// Some exports put a UTF-8 BOM in front of Windows-1252 content, so the bytes after it are still checked.
+export function detectEncoding(bytes: Uint8Array, bom: ByteOrderMark = detectBom(bytes)): CsvEncoding {
+  if (bom === 'utf-16le' || bom === 'utf-16be') return bom;
+  try {
+    // stream: true tolerates a multi-byte character cut off at the end of the sample
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(bomLength(bom)), { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'windows-1252';
+  }
+}
+
+// The bytes of the given BOM are cut from the start before decoding
+export function decodeSample(bytes: Uint8Array, encoding: CsvEncoding, bom: ByteOrderMark = detectBom(bytes)): string {
+  return new TextDecoder(encoding, { ignoreBOM: true }).decode(bytes.subarray(bomLength(bom)));
+}
+
+// Count delimiter occurrences outside quoted values
+function countDelimiter(line: string, delimiter: string): number {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of line) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (char === delimiter && !inQuotes) count++;
+  }
+  return count;
+}
+
+// Pick the delimiter that splits the most lines into the same number of columns
+export function detectDelimiter(text: string): CsvDelimiter {
+  const lines = text.split(/\r\n|\n|\r/).filter(line => line.trim().length > 0).slice(0, SNIFF_LINES);
+  // The last sampled line may be cut off
+  if (lines.length > 1) lines.pop();
+
+  let best: { delimiter: CsvDelimiter; score: number } = { delimiter: ',', score: 0 };
+  csvDelimiters.forEach(({ value }) => {
+    const counts = lines.map(line => countDelimiter(line, value));
+    if (counts[0] === 0) return;
+    const consistent = counts.filter(count => count === counts[0]).length;
+    const score = consistent * counts[0];
+    if (score > best.score) best = { delimiter: value, score };
+  });
+
+  return best.delimiter;
+}
+
+export async function sniffCsvFile(file: File, fileId: string): Promise<CsvPreflight> {
+  const sample = new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer());
+  const bom = detectBom(sample);
+  const encoding = detectEncoding(sample, bom);
+  const delimiter = detectDelimiter(decodeSample(sample, encoding, bom));
+  const detected = { delimiter, encoding, bom };
+  return { fileId, fileName: file.name, sample, detected, options: detected };
+}
+
+// First rows of the sample parsed with the given options, header row included
+export function previewCsv(sample: Uint8Array, options: CsvParseOptions, rowCount = 5): string[][] {
+  const results = Papa.parse<string[]>(decodeSample(sample, options.encoding, options.bom), {
+    delimiter: options.delimiter,
+    preview: rowCount + 1,
+    skipEmptyLines: true
+  });
+  return results.data;
+}
+
+// Papa Parse settings matching the options, with any stray BOM removed from the first header
+export function toPapaConfig(options?: CsvParseOptions): { delimiter?: string; encoding?: string; transformHeader: (header: string, index: number) => string } {
+  return {
+    ...(options ? { delimiter: options.delimiter, encoding: options.encoding } : {}),
+    transformHeader: (header: string, index: number) => index === 0 ? header.replace(/^\ufeff/, '') : header
+  };
+}
@@ -0,0 +1,303 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import { EntityType, BuiltInEntityType, EntitySchema, FieldDefinition, SchemaRegistry, defaultSchemas, getCustomEntityKey } from './schemas';
+import { CrossEntityData } from './validation';
+import { HeaderMapping, MIN_MAPPING_CONFIDENCE, proposeHeaderMapping, isMappingConfident, applyHeaderMapping, scoreHeader, tokenizeHeader } from './headerMapping';
+import { recallMapping } from './mappingMemory';
+import { CsvParseOptions, toPapaConfig } from './csvPreflight';
+import { ParseDiagnostic } from './parseDiagnostics';
+import { SheetLayout, sheetToRows } from './sheetLayout';
+import { JsonTable, isJsonFile, parseJsonTables, flattenRecord, alignColumns, getJsonColumns } from './jsonImport';
+import { inferColumnType } from './columnProfile';
+
+export type { EntityType } from './schemas';
+
+// Slot in CrossEntityData that holds the rows of each built-in entity, custom entities take no part in cross checks
+export const entityDataKeys: Record<BuiltInEntityType, keyof CrossEntityData> = {
+  client: 'clients',
+  worker: 'workers',
+  task: 'tasks'
+};
+
+// Serializable description of an uploaded file
+export interface FileMetadata {
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+  sheetName?: string;
+}
+
+// One classified table coming from a CSV file or a workbook sheet, rows keep their original headers
+export interface ImportedSource {
+  // Generated when the source is classified, file names can repeat across uploads
+  id: string;
+  // Name shown to the user, the file name and sheet
+  source: string;
+  entity: EntityType | null;
+  rows: any[];
+  rowCount: number;
+  mapping: HeaderMapping[];
+  mappingConfirmed: boolean;
+  file?: FileMetadata;
+  note?: string;
+  // Malformed CSV lines waiting to be repaired or dropped
+  diagnostics?: ParseDiagnostic[];
+  // Ranked entity guesses when detection was ambiguous
+  candidates?: EntityCandidate[];
+}
+
+// An entity the headers could belong to, with the headers that matched its fields
+export interface EntityCandidate {
+  entity: EntityType;
+  score: number;
+  matches: { header: string; field: string }[];
+}
+
+// ID of the chosen source for each entity when several sources were detected as the same entity
+export type SourceChoices = Partial<Record<EntityType, string>>;
+
+let lastImportId = 0;
+
+// Sources and uploaded files are told apart by a generated ID rather than by name
+export function createImportId(prefix: string): string {
+  lastImportId += 1;
+  return `${prefix}-${lastImportId}`;
+}
+
+// Entities ranked by how well the headers match their fields. Each header adds its match confidence,
+// halved when it fits several entities equally well (such as "id" or "name").
+export function rankEntityCandidates(headers: string[], registry: SchemaRegistry = defaultSchemas): EntityCandidate[] {
+  const entities = Object.keys(registry) as EntityType[];
+  const candidates: EntityCandidate[] = entities.map(entity => ({ entity, score: 0, matches: [] }));
+
+  headers.forEach(header => {
+    const best = entities.map(entity => {
+      let field = '';
+      let confidence = 0;
+      registry[entity].fields.forEach(f => {
+        const score = scoreHeader(header, [f.name, ...f.aliases]);
+        if (score > confidence) {
+          field = f.name;
+          confidence = score;
+        }
+      });
+      return { field, confidence };
+    });
+    const top = Math.max(...best.map(b => b.confidence));
+    if (top < MIN_MAPPING_CONFIDENCE) return;
+
+    const winners = best.map((b, i) => b.confidence === top ? i : -1).filter(i => i >= 0);
+    winners.forEach(i => {
+      candidates[i].score += winners.length > 1 ? top / 2 : top;
+      candidates[i].matches.push({ header, field: best[i].field });
+    });
+  });
+
+  return candidates
+    .filter(c => c.score > 0)
+    .map(c => ({ ...c, score: Math.round(c.score * 100) / 100 }))
+    .sort((a, b) => b.score - a.score);
+}
+
+// Detect which entity a set of headers belongs to, null when ambiguous or when only a loose match was found
+export function detectEntity(headers: string[], registry: SchemaRegistry = defaultSchemas): EntityType | null {
+  const [first, second] = rankEntityCandidates(headers, registry);
+  if (!first || first.score < 1 || first.score === second?.score) {
+    return null;
+  }
+  return first.entity;
+}
+
+// Classify raw rows and propose a header mapping when the entity is known
+export function classifyRows(source: string, rows: any[], registry: SchemaRegistry = defaultSchemas): ImportedSource {
+  const id = createImportId('source');
+  if (rows.length === 0) {
+    return { id, source, entity: null, rows, rowCount: 0, mapping: [], mappingConfirmed: false, note: 'No rows found' };
+  }
+
+  // A mapping confirmed earlier for the same headers wins over detection
+  const headers = Object.keys(rows[0]);
+  const remembered = recallMapping(headers, registry);
+  if (remembered && remembered.entity in registry) {
+    return { id, source, entity: remembered.entity as EntityType, rows, rowCount: rows.length, mapping: remembered.mapping, mappingConfirmed: true };
+  }
+
+  const candidates = rankEntityCandidates(headers, registry);
+  const entity = detectEntity(headers, registry);
+  if (!entity) {
+    const note = candidates.length > 0 ? 'Ambiguous, pick one of the candidates' : 'Could not classify';
+    return { id, source, entity: null, rows, rowCount: rows.length, mapping: [], mappingConfirmed: false, note, candidates };
+  }
+
+  const mapping = proposeHeaderMapping(headers, entity, registry);
+  return { id, source, entity, rows, rowCount: rows.length, mapping, mappingConfirmed: isMappingConfident(mapping) };
+}
+
+// Manually assign an entity to a source that could not be classified
+export function assignSourceEntity(source: ImportedSource, entity: EntityType, registry: SchemaRegistry = defaultSchemas): ImportedSource {
+  const mapping = source.rows.length > 0 ? proposeHeaderMapping(Object.keys(source.rows[0]), entity, registry) : [];
+  return { ...source, entity, mapping, mappingConfirmed: isMappingConfident(mapping), note: undefined, candidates: undefined };
+}
+
+// Schema for a table that fits none of the known entities: one field per column, typed from its values
+export function createCustomSchema(label: string, rows: any[]): EntitySchema {
+  const headers = rows.length > 0 ? Object.keys(rows[0]) : [];
+  const names = new Set<string>();
+  const fields = headers.map((header, index): FieldDefinition => {
+    const base = tokenizeHeader(header).join('') || `column${index + 1}`;
+    let name = base;
+    for (let n = 2; names.has(name); n++) name = `${base}${n}`;
+    names.add(name);
+    return {
+      name,
+      aliases: name === header ? [] : [header],
+      type: inferColumnType(rows.map(row => row[header])),
+      required: false
+    };
+  });
+  return { label: label.trim() || 'Custom entity', fields };
+}
+
+// Register a new custom entity built from the source's columns and assign the source to it
+export function assignCustomEntity(source: ImportedSource, label: string, registry: SchemaRegistry = defaultSchemas): { source: ImportedSource; registry: SchemaRegistry } {
+  const entity = getCustomEntityKey(label, registry);
+  const updated = { ...registry, [entity]: createCustomSchema(label, source.rows) };
+  return { source: assignSourceEntity(source, entity, updated), registry: updated };
+}
+
+export function confirmSourceMapping(source: ImportedSource, mapping: HeaderMapping[]): ImportedSource {
+  return { ...source, mapping, mappingConfirmed: true };
+}
+
+// Accept the proposed repair of a malformed line or drop it, later lines shift past the inserted rows
+export function resolveDiagnostic(source: ImportedSource, id: number, accept: boolean): { source: ImportedSource; inserted: { index: number; rows: any[] } | null } {
+  const diagnostic = source.diagnostics?.find(d => d.id === id);
+  if (!diagnostic) return { source, inserted: null };
+
+  const rows = accept ? diagnostic.repair : [];
+  const diagnostics = source.diagnostics!
+    .filter(d => d.id !== id)
+    .map(d => d.id > id && d.insertAt >= diagnostic.insertAt ? { ...d, insertAt: d.insertAt + rows.length } : d);
+  const sourceRows = [...source.rows.slice(0, diagnostic.insertAt), ...rows, ...source.rows.slice(diagnostic.insertAt)];
+
+  return {
+    source: { ...source, rows: sourceRows, rowCount: sourceRows.length, diagnostics: diagnostics.length > 0 ? diagnostics : undefined },
+    inserted: rows.length > 0 ? { index: diagnostic.insertAt, rows } : null
+  };
+}
+
+// Rows of a source renamed to canonical fields, without ignored columns
+export function getSourceRows(source: ImportedSource): any[] {
+  return applyHeaderMapping(source.rows, source.mapping);
+}
+
+// Rows of a newer file of a loaded table, mapped like the table when the file has the same headers
+export function getSourceRowsAs(source: ImportedSource, entity: EntityType, mapping: HeaderMapping[], registry: SchemaRegistry = defaultSchemas): any[] {
+  const headers = source.rows.length > 0 ? Object.keys(source.rows[0]) : [];
+  const known = new Set(mapping.map(m => m.header));
+  if (mapping.length > 0 && headers.every(header => known.has(header))) return applyHeaderMapping(source.rows, mapping);
+  return getSourceRows(source.entity === entity ? source : assignSourceEntity(source, entity, registry));
+}
+
+// Classify every sheet of a workbook
+export function importWorkbook(
+  workbook: XLSX.WorkBook,
+  fileName?: string,
+  registry: SchemaRegistry = defaultSchemas,
+  layouts: Record<string, SheetLayout> = {}
+): ImportedSource[] {
+  return workbook.SheetNames.map(sheetName => {
+    const rows = sheetToRows(workbook.Sheets[sheetName], layouts[sheetName]);
+    const source = fileName && workbook.SheetNames.length > 1 ? `${fileName} / ${sheetName}` : (fileName || sheetName);
+    return classifyRows(source, rows, registry);
+  });
+}
+
+// Classify every table of a JSON file, nested objects flattened into columns
+export function importJsonTables(tables: JsonTable[], fileName: string, registry: SchemaRegistry = defaultSchemas): ImportedSource[] {
+  const jsonColumns = getJsonColumns(registry);
+  return tables.map(table => {
+    const rows = alignColumns(table.records.map(record => flattenRecord(record, jsonColumns)));
+    const source = table.name && tables.length > 1 ? `${fileName} / ${table.name}` : fileName;
+    return classifyRows(source, rows, registry);
+  });
+}
+
+export function getFileMetadata(file: File, sheetName?: string): FileMetadata {
+  return {
+    name: file.name,
+    size: file.size,
+    type: file.type,
+    lastModified: file.lastModified,
+    ...(sheetName ? { sheetName } : {})
+  };
+}
+
+export function parseCsvFile(file: File, options?: CsvParseOptions): Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    Papa.parse(file, {
+      ...toPapaConfig(options),
+      header: true,
+      skipEmptyLines: true,
+      complete: (results) => resolve(results.data as any[]),
+      error: (err) => reject(err)
+    });
+  });
+}
+
+// Parse and classify a batch of CSV/XLSX/JSON files
+export async function importFiles(files: File[], registry: SchemaRegistry = defaultSchemas): Promise<ImportedSource[]> {
+  const sources: ImportedSource[] = [];
+
+  for (const file of files) {
+    const fileName = file.name.toLowerCase();
+    if (fileName.endsWith('.csv')) {
+      const rows = await parseCsvFile(file);
+      sources.push({ ...classifyRows(file.name, rows, registry), file: getFileMetadata(file) });
+    } else if (fileName.endsWith('.xlsx') || fileName.endsWith('.xls')) {
+      const buffer = await file.arrayBuffer();
+      const workbook = XLSX.read(new Uint8Array(buffer), { type: 'array' });
+      importWorkbook(workbook, file.name, registry).forEach((source, index) => {
+        sources.push({ ...source, file: getFileMetadata(file, workbook.SheetNames[index]) });
+      });
+    } else if (isJsonFile(fileName)) {
+      const { tables } = parseJsonTables(await file.text(), file.name);
+      importJsonTables(tables, file.name, registry).forEach((source, index) => {
+        sources.push({ ...source, file: getFileMetadata(file, tables[index].name) });
+      });
+    } else {
+      sources.push({ ...classifyRows(file.name, []), file: getFileMetadata(file), note: 'Unsupported file type' });
+    }
+  }
+
+  return sources;
+}
+
+// Entities that were detected in more than one source
+export function findEntityConflicts(sources: ImportedSource[]): Partial<Record<EntityType, ImportedSource[]>> {
+  const byEntity: Partial<Record<EntityType, ImportedSource[]>> = {};
+  sources.forEach(source => {
+    if (!source.entity) return;
+    byEntity[source.entity] = [...(byEntity[source.entity] || []), source];
+  });
+
+  const conflicts: Partial<Record<EntityType, ImportedSource[]>> = {};
+  (Object.keys(byEntity) as EntityType[]).forEach(entity => {
+    if (byEntity[entity]!.length > 1) conflicts[entity] = byEntity[entity];
+  });
+  return conflicts;
+}
+
+// Pick the source used for each entity, defaulting to the first one detected
+export function resolveSources(sources: ImportedSource[], choices: SourceChoices = {}): Partial<Record<EntityType, ImportedSource>> {
+  const resolved: Partial<Record<EntityType, ImportedSource>> = {};
+  sources.forEach(source => {
+    if (!source.entity) return;
+    const chosen = choices[source.entity];
+    if (chosen ? chosen === source.id : !resolved[source.entity]) {
+      resolved[source.entity] = source;
+    }
+  });
+  return resolved;
+}
@@ -0,0 +1,89 @@
+import { CellPatch } from './history';
+
+export type FindScope = 'cell' | 'token';
+
+export interface FindReplaceOptions {
+  find: string;
+  replace: string;
+  useRegex: boolean;
+  caseSensitive: boolean;
+  // Empty means every column
+  columns: string[];
+  // A whole cell, or one entry of a comma separated list cell
+  scope: FindScope;
+}
+
+export const defaultFindReplaceOptions: FindReplaceOptions = {
+  find: '',
+  replace: '',
+  useRegex: false,
+  caseSensitive: false,
+  columns: [],
+  scope: 'cell'
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The pattern always has to match the whole cell or token, so "sql" never hits "nosql"
+function compilePattern(options: FindReplaceOptions): RegExp {
+  const source = options.useRegex ? options.find : escapeRegExp(options.find);
+  return new RegExp(`^(?:${source})$`, options.caseSensitive ? '' : 'i');
+}
+
+function replaceToken(token: string, pattern: RegExp, options: FindReplaceOptions): string {
+  if (!pattern.test(token)) return token;
+  // Literal replacements are used as typed, regex ones may refer to groups like $1
+  return options.useRegex ? token.replace(pattern, options.replace) : options.replace;
+}
+
+function replaceInList(value: any, pattern: RegExp, options: FindReplaceOptions): any {
+  if (Array.isArray(value)) {
+    return value.map(token => replaceToken(String(token), pattern, options)).filter(token => token !== '');
+  }
+  // Odd parts are the separators, kept as they were unless a token is removed
+  const parts = String(value).split(/(\s*,\s*)/);
+  const tokens = parts.filter((_, idx) => idx % 2 === 0);
+  const replaced = tokens.map(token => token === '' ? token : replaceToken(token, pattern, options));
+  if (replaced.every((token, idx) => token !== '' || tokens[idx] === '')) {
+    return parts.map((part, idx) => idx % 2 === 0 ? replaced[idx / 2] : part).join('');
+  }
+  return replaced.filter(token => token !== '').join(',');
+}
+
+function replaceValue(value: any, pattern: RegExp, options: FindReplaceOptions): any {
+  if (value === null || value === undefined || value === '') return value;
+  if (options.scope === 'token') return replaceInList(value, pattern, options);
+  return replaceToken(String(value), pattern, options);
+}
+
+const sameValue = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b) || String(a) === String(b);
+
+// Cells the replacement would change, or the reason the pattern cannot be used
+export function findReplacements(data: any[], options: FindReplaceOptions): { changes: CellPatch[]; error: string | null } {
+  if (!options.find) return { changes: [], error: null };
+  let pattern: RegExp;
+  try {
+    pattern = compilePattern(options);
+  } catch (error) {
+    return { changes: [], error: error instanceof Error ? error.message : 'Invalid regular expression' };
+  }
+
+  const changes: CellPatch[] = [];
+  data.forEach((row, rowIndex) => {
+    const columns = options.columns.length > 0 ? options.columns : Object.keys(row);
+    columns.forEach(column => {
+      const before = row[column];
+      const after = replaceValue(before, pattern, options);
+      if (!sameValue(before, after)) changes.push({ rowIndex, column, before, after });
+    });
+  });
+  return { changes, error: null };
+}
+
+export function applyReplacements(data: any[], changes: CellPatch[]): any[] {
+  const rows = [...data];
+  changes.forEach(({ rowIndex, column, after }) => {
+    rows[rowIndex] = { ...rows[rowIndex], [column]: after };
+  });
+  return rows;
+}
@@ -0,0 +1,96 @@
+import { CellEdit } from './history';
+
+// A cell by its place in the grid as shown: position in the sorted and filtered rows, visible column index
+export interface CellPosition {
+  row: number;
+  col: number;
+}
+
+export interface CellRange {
+  top: number;
+  left: number;
+  bottom: number;
+  right: number;
+}
+
+export function toRange(anchor: CellPosition, focus: CellPosition): CellRange {
+  return {
+    top: Math.min(anchor.row, focus.row),
+    left: Math.min(anchor.col, focus.col),
+    bottom: Math.max(anchor.row, focus.row),
+    right: Math.max(anchor.col, focus.col)
+  };
+}
+
+export const rangeSize = (range: CellRange) => (range.bottom - range.top + 1) * (range.right - range.left + 1);
+
+export const inRange = (range: CellRange, row: number, col: number) =>
+  row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+
+export function clampPosition(position: CellPosition, rowCount: number, colCount: number): CellPosition {
+  return {
+    row: Math.max(0, Math.min(position.row, rowCount - 1)),
+    col: Math.max(0, Math.min(position.col, colCount - 1))
+  };
+}
+
+// Tab and Shift+Tab wrap to the next or previous row
+export function nextCell(position: CellPosition, backwards: boolean, rowCount: number, colCount: number): CellPosition {
+  const index = position.row * colCount + position.col + (backwards ? -1 : 1);
+  const last = rowCount * colCount - 1;
+  const wrapped = Math.max(0, Math.min(index, last));
+  return { row: Math.floor(wrapped / colCount), col: wrapped % colCount };
+}
+
+const toCellText = (value: any) => {
+  if (value === null || value === undefined) return '';
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Tabs and line breaks would split the cell when pasted back
+  return text.replace(/[\t\r\n]+/g, ' ');
+};
+
+export function rangeToTsv(data: any[], rowIndices: number[], columns: string[], range: CellRange): string {
+  const lines: string[] = [];
+  for (let row = range.top; row <= range.bottom; row++) {
+    const record = data[rowIndices[row]];
+    lines.push(columns.slice(range.left, range.right + 1).map(column => toCellText(record?.[column])).join('\t'));
+  }
+  return lines.join('\n');
+}
+
+// A pasted block starts at the top-left of the selection and is repeated when the selection is larger
+export function pasteIntoRange(cells: string[][], rowIndices: number[], columns: string[], range: CellRange): CellEdit[] {
+  const blockRows = cells.length;
+  const blockCols = Math.max(...cells.map(row => row.length));
+  if (blockRows === 0 || blockCols === 0) return [];
+  const height = Math.max(blockRows, range.bottom - range.top + 1);
+  const width = Math.max(blockCols, range.right - range.left + 1);
+
+  const edits: CellEdit[] = [];
+  for (let r = 0; r < height && range.top + r < rowIndices.length; r++) {
+    for (let c = 0; c < width && range.left + c < columns.length; c++) {
+      // Past the block within a larger selection, repeat it only in whole copies
+      if ((r >= blockRows && height % blockRows !== 0) || (c >= blockCols && width % blockCols !== 0)) continue;
+      edits.push({
+        rowIndex: rowIndices[range.top + r],
+        column: columns[range.left + c],
+        value: cells[r % blockRows][c % blockCols] ?? ''
+      });
+    }
+  }
+  return edits;
+}
+
+// Ctrl+D copies the top row of the selection down, or the row above when only one row is selected
+export function fillDown(data: any[], rowIndices: number[], columns: string[], range: CellRange): CellEdit[] {
+  const sourceRow = range.top === range.bottom ? range.top - 1 : range.top;
+  if (sourceRow < 0) return [];
+  const source = data[rowIndices[sourceRow]];
+  const edits: CellEdit[] = [];
+  for (let row = sourceRow + 1; row <= range.bottom; row++) {
+    for (let col = range.left; col <= range.right; col++) {
+      edits.push({ rowIndex: rowIndices[row], column: columns[col], value: source?.[columns[col]] ?? '' });
+    }
+  }
+  return edits;
+}
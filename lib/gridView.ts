@@ -0,0 +1,101 @@
+import { ValidationErrorIndex, cellKey } from './validation';
+
+const STORAGE_KEY = 'data-alchemist:grid-views';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ColumnFilter {
+  // Case-insensitive text the cell must contain
+  value: string;
+  // Only rows with a validation error in this column
+  hasError: boolean;
+}
+
+// How the grid shows an entity's table. Rows keep their indices, the view only picks and orders them.
+export interface GridViewSettings {
+  sort: { column: string; direction: SortDirection } | null;
+  filters: Record<string, ColumnFilter>;
+  hiddenColumns: string[];
+  columnOrder: string[];
+}
+
+export const defaultGridView: GridViewSettings = {
+  sort: null,
+  filters: {},
+  hiddenColumns: [],
+  columnOrder: []
+};
+
+export function loadGridViews(): Record<string, GridViewSettings> {
+  if (typeof window === 'undefined') return {};
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function saveGridViews(views: Record<string, GridViewSettings>) {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(views));
+  } catch (error) {
+    console.error('Failed to save grid views:', error);
+  }
+}
+
+// Table columns in the saved order, columns the order does not know yet keep their file position at the end
+export function getOrderedColumns(columns: string[], view: GridViewSettings): string[] {
+  const known = view.columnOrder.filter(column => columns.includes(column));
+  return [...known, ...columns.filter(column => !known.includes(column))];
+}
+
+export function getVisibleColumns(columns: string[], view: GridViewSettings): string[] {
+  return getOrderedColumns(columns, view).filter(column => !view.hiddenColumns.includes(column));
+}
+
+// Move a column in front of another one, returning the full new order
+export function moveColumn(columns: string[], view: GridViewSettings, column: string, before: string): string[] {
+  const order = getOrderedColumns(columns, view).filter(c => c !== column);
+  const target = order.indexOf(before);
+  order.splice(target < 0 ? order.length : target, 0, column);
+  return order;
+}
+
+export const isFilterActive = (filter?: ColumnFilter) => !!filter && (filter.value.trim() !== '' || filter.hasError);
+
+const isBlank = (value: any) => value === null || value === undefined || String(value).trim() === '';
+
+function compareValues(a: any, b: any): number {
+  if (!isNaN(Number(a)) && !isNaN(Number(b))) return Number(a) - Number(b);
+  return String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+// Original row indices that pass the filters, in sorted order. Filters of hidden columns are not applied,
+// nothing on screen would show them.
+export function applyGridView(data: any[], rowIndices: number[], view: GridViewSettings, errorIndex: ValidationErrorIndex): number[] {
+  const filters = Object.entries(view.filters)
+    .filter(([column, filter]) => isFilterActive(filter) && !view.hiddenColumns.includes(column));
+  const visible = filters.length === 0 ? rowIndices : rowIndices.filter(rowIndex => {
+    const row = data[rowIndex];
+    return filters.every(([column, filter]) => {
+      if (filter.hasError && !errorIndex.byCell.has(cellKey(rowIndex, column))) return false;
+      const text = filter.value.trim().toLowerCase();
+      return !text || String(row?.[column] ?? '').toLowerCase().includes(text);
+    });
+  });
+
+  if (!view.sort) return visible;
+  const { column, direction } = view.sort;
+  const sign = direction === 'asc' ? 1 : -1;
+  // Blank cells go last in both directions, ties keep the row order
+  return [...visible].sort((a, b) => {
+    const valueA = data[a]?.[column];
+    const valueB = data[b]?.[column];
+    if (isBlank(valueA) || isBlank(valueB)) {
+      return isBlank(valueA) === isBlank(valueB) ? a - b : isBlank(valueA) ? 1 : -1;
+    }
+    return compareValues(valueA, valueB) * sign || a - b;
+  });
+}
@@ -0,0 +1,168 @@
+import { SchemaRegistry, defaultSchemas, toVariantMap } from './schemas';
+
+export interface HeaderMapping {
+  header: string;
+  field: string | null;
+  confidence: number;
+  ignored: boolean;
+  fromMemory?: boolean;
+}
+
+// Minimum similarity before a canonical field is proposed for a header
+export const MIN_MAPPING_CONFIDENCE = 0.6;
+
+// Split a header into lowercase word tokens ("Client Nm", "client_name", "ClientName")
+export function tokenizeHeader(header: string): string[] {
+  return header
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 0);
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function isSubsequence(short: string, long: string): boolean {
+  let i = 0;
+  for (let j = 0; j < long.length && i < short.length; j++) {
+    if (short[i] === long[j]) i++;
+  }
+  return i === short.length;
+}
+
+function diceCoefficient(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return a === b ? 1 : 0;
+
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const count = bigrams.get(bigram) || 0;
+    if (count > 0) {
+      bigrams.set(bigram, count - 1);
+      overlap++;
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  // Abbreviations and plurals: "prio" -> "priority", "tasks" -> "task"
+  if (a.length >= 3 && b.startsWith(a)) return 0.9;
+  if (b.length >= 3 && a.startsWith(b)) return 0.9;
+  // Dropped vowels: "nm" -> "name", "qual" -> "qualification"
+  if (a[0] === b[0] && Math.min(a.length, b.length) >= 2) {
+    if (a.length < b.length ? isSubsequence(a, b) : isSubsequence(b, a)) return 0.75;
+  }
+  return diceCoefficient(a, b);
+}
+
+function tokenSetSimilarity(headerTokens: string[], variantTokens: string[]): number {
+  if (headerTokens.length === 0 || variantTokens.length === 0) return 0;
+  const coverage = (from: string[], to: string[]) =>
+    from.reduce((sum, token) => sum + Math.max(...to.map(other => tokenSimilarity(token, other))), 0) / from.length;
+  return (coverage(headerTokens, variantTokens) + coverage(variantTokens, headerTokens)) / 2;
+}
+
+// Similarity between an uploaded header and the known variants of a field, 1 only for exact matches
+export function scoreHeader(header: string, variants: string[]): number {
+  const normalized = normalizeHeader(header);
+  const tokens = tokenizeHeader(header);
+  let best = 0;
+
+  for (const variant of variants) {
+    if (normalizeHeader(variant) === normalized) return 1;
+    const score = Math.max(
+      tokenSetSimilarity(tokens, tokenizeHeader(variant)),
+      diceCoefficient(normalized, normalizeHeader(variant))
+    );
+    best = Math.max(best, score);
+  }
+
+  return Math.min(best, 0.99);
+}
+
+// Propose a canonical field for every header, each field used at most once
+export function proposeHeaderMapping(headers: string[], entity: string, registry: SchemaRegistry = defaultSchemas): HeaderMapping[] {
+  const entitySchema = toVariantMap(registry)[entity as keyof SchemaRegistry] || {};
+  const candidates: { header: string; field: string; score: number }[] = [];
+
+  headers.forEach(header => {
+    Object.entries(entitySchema).forEach(([field, variants]) => {
+      const score = scoreHeader(header, variants);
+      if (score >= MIN_MAPPING_CONFIDENCE) candidates.push({ header, field, score });
+    });
+  });
+
+  // Greedy assignment, most confident pairs first
+  candidates.sort((a, b) => b.score - a.score);
+  const assigned = new Map<string, { field: string; score: number }>();
+  const usedFields = new Set<string>();
+  candidates.forEach(({ header, field, score }) => {
+    if (assigned.has(header) || usedFields.has(field)) return;
+    assigned.set(header, { field, score });
+    usedFields.add(field);
+  });
+
+  return headers.map(header => ({
+    header,
+    field: assigned.get(header)?.field ?? null,
+    confidence: assigned.get(header)?.score ?? 0,
+    ignored: false
+  }));
+}
+
+// Every header maps exactly onto a canonical field, so no review is needed
+export function isMappingConfident(mapping: HeaderMapping[]): boolean {
+  return mapping.every(m => m.ignored || (m.field !== null && m.confidence === 1));
+}
+
+export function toHeaderMap(mapping: HeaderMapping[]): Record<string, string> {
+  const headerMap: Record<string, string> = {};
+  mapping.forEach(m => {
+    if (!m.ignored) headerMap[m.header] = m.field || m.header;
+  });
+  return headerMap;
+}
+
+// Rows mapped with one mapping as if mapped with another, so a loaded table keeps its edits when its
+// mapping changes. Null when the new mapping keeps a header the old one dropped, its values are gone.
+export function remapMappedRows(rows: any[], previous: HeaderMapping[], next: HeaderMapping[]): any[] | null {
+  const previousMap = toHeaderMap(previous);
+  const nextMap = toHeaderMap(next);
+  if (next.some(m => !m.ignored && !(m.header in previousMap))) return null;
+  // Columns added in the grid are not in either mapping and keep their name
+  const renames = new Map<string, string | null>(previous.filter(m => !m.ignored).map(m => [previousMap[m.header], nextMap[m.header] ?? null]));
+  return rows.map(row => {
+    const newRow: Record<string, any> = {};
+    Object.entries(row).forEach(([key, value]) => {
+      const column = renames.has(key) ? renames.get(key) : key;
+      if (column) newRow[column] = value;
+    });
+    return newRow;
+  });
+}
+
+// Rename columns to their mapped fields and drop ignored columns
+export function applyHeaderMapping(rows: any[], mapping: HeaderMapping[]): any[] {
+  const headerMap = toHeaderMap(mapping);
+  const ignored = new Set(mapping.filter(m => m.ignored).map(m => m.header));
+
+  return rows.map(row => {
+    const newRow: Record<string, any> = {};
+    Object.entries(row).forEach(([key, value]) => {
+      if (ignored.has(key)) return;
+      newRow[headerMap[key] || key] = value;
+    });
+    return newRow;
+  });
+}
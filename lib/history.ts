@@ -0,0 +1,92 @@
+export interface CellPatch {
+  rowIndex: number;
+  column: string;
+  before: any;
+  after: any;
+}
+
+// A value written to one cell by a multi-cell operation such as paste or fill-down
+export interface CellEdit {
+  rowIndex: number;
+  column: string;
+  value: any;
+}
+
+// A row taken out of or put into a table, at its index in the version of the table that holds it
+export interface RowChange {
+  index: number;
+  row: any;
+}
+
+// Cell edits are kept as changed values, changes that move rows keep only the rows taken out and put in
+export type HistoryPatch =
+  | { kind: 'cells'; changes: CellPatch[] }
+  | { kind: 'rows'; removed: RowChange[]; added: RowChange[] };
+
+export type RowsPatch = Extract<HistoryPatch, { kind: 'rows' }>;
+
+export interface HistoryEntry {
+  id: number;
+  entity: string;
+  label: string;
+  patch: HistoryPatch;
+  // Keystrokes in the same cell extend this entry until the cell loses focus
+  open?: boolean;
+}
+
+const sameColumns = (a: any, b: any) => {
+  const keysA = Object.keys(a ?? {});
+  const keysB = Object.keys(b ?? {});
+  return keysA.length === keysB.length && keysA.every((key, i) => key === keysB[i]);
+};
+
+// Rows of both versions are matched by object in order, whatever is left over was removed or added
+function diffRowObjects(before: any[], after: any[]): RowsPatch {
+  const positions = new Map<any, number[]>();
+  before.forEach((row, idx) => {
+    const list = positions.get(row);
+    if (list) list.push(idx);
+    else positions.set(row, [idx]);
+  });
+  const removed: RowChange[] = [];
+  const added: RowChange[] = [];
+  let next = 0;
+  after.forEach((row, index) => {
+    const list = positions.get(row);
+    while (list && list.length > 0 && list[0] < next) list.shift();
+    if (!list || list.length === 0) {
+      added.push({ index, row });
+      return;
+    }
+    const match = list.shift()!;
+    for (; next < match; next++) removed.push({ index: next, row: before[next] });
+    next = match + 1;
+  });
+  for (; next < before.length; next++) removed.push({ index: next, row: before[next] });
+  return { kind: 'rows', removed, added };
+}
+
+// Undoing takes out the added rows and puts the removed ones back, redoing the other way round
+export function applyRowsPatch(rows: any[], patch: RowsPatch, direction: 'undo' | 'redo') {
+  const [takenOut, putIn] = direction === 'undo' ? [patch.added, patch.removed] : [patch.removed, patch.added];
+  for (let i = takenOut.length - 1; i >= 0; i--) rows.splice(takenOut[i].index, 1);
+  putIn.forEach(({ index, row }) => rows.splice(index, 0, row));
+}
+
+// Smallest patch turning one version of a table into the other
+export function diffRows(before: any[], after: any[]): HistoryPatch {
+  if (before.length !== after.length || !sameColumns(before[0], after[0])) {
+    return diffRowObjects(before, after);
+  }
+  const changes: CellPatch[] = [];
+  after.forEach((row, rowIndex) => {
+    const previous = before[rowIndex];
+    if (row === previous) return;
+    Object.keys(row).forEach(column => {
+      if (row[column] !== previous[column]) {
+        changes.push({ rowIndex, column, before: previous[column], after: row[column] });
+      }
+    });
+  });
+  return { kind: 'cells', changes };
+}
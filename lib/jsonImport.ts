@@ -0,0 +1,97 @@
+import { SchemaRegistry, EntityType } from './schemas';
+import { MIN_MAPPING_CONFIDENCE, scoreHeader } from './headerMapping';
+
+// Records found in a JSON file, named when they came from a property of a top-level object
+export interface JsonTable {
+  name?: string;
+  records: any[];
+}
+
+export function isJsonFile(fileName: string): boolean {
+  return /\.(json|ndjson|jsonl)$/i.test(fileName);
+}
+
+const isNdjsonFile = (fileName: string) => /\.(ndjson|jsonl)$/i.test(fileName);
+
+const isPlainObject = (value: any) => value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// Header variants of every JSON-typed field, nested objects under these keys stay whole
+export function getJsonColumns(registry: SchemaRegistry): string[] {
+  return (Object.keys(registry) as EntityType[]).flatMap(entity =>
+    registry[entity].fields.filter(field => field.type === 'json').flatMap(field => [field.name, ...field.aliases])
+  );
+}
+
+// Arrays come out the way the CSV exports write them: numbers as "[1,2]", strings as "a,b"
+function flattenArray(values: any[]): string {
+  if (values.every(value => typeof value === 'number')) return JSON.stringify(values);
+  if (values.every(value => typeof value === 'string')) return values.join(',');
+  return JSON.stringify(values);
+}
+
+// Nested objects become "parent.child" columns unless their key is a JSON column
+export function flattenRecord(record: any, jsonColumns: string[], prefix = ''): Record<string, any> {
+  const row: Record<string, any> = {};
+  if (!isPlainObject(record)) {
+    row[prefix || 'value'] = record;
+    return row;
+  }
+
+  Object.entries(record).forEach(([key, value]) => {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(value)) {
+      if (jsonColumns.length > 0 && scoreHeader(key, jsonColumns) >= MIN_MAPPING_CONFIDENCE) {
+        row[column] = JSON.stringify(value);
+      } else {
+        Object.assign(row, flattenRecord(value, jsonColumns, column));
+      }
+    } else if (Array.isArray(value)) {
+      row[column] = flattenArray(value);
+    } else {
+      row[column] = value ?? '';
+    }
+  });
+  return row;
+}
+
+// Every row gets every column so the first row carries the full header set
+export function alignColumns(rows: Record<string, any>[]): Record<string, any>[] {
+  const columns: string[] = [];
+  const seen = new Set<string>();
+  rows.forEach(row => Object.keys(row).forEach(column => {
+    if (!seen.has(column)) {
+      seen.add(column);
+      columns.push(column);
+    }
+  }));
+  return rows.map(row => Object.fromEntries(columns.map(column => [column, row[column] ?? ''])));
+}
+
+// A JSON array is one table, an object holding arrays of objects is one table per property
+export function parseJsonTables(text: string, fileName: string): { tables: JsonTable[]; invalidLines: number } {
+  if (isNdjsonFile(fileName)) {
+    let invalidLines = 0;
+    const records: any[] = [];
+    text.split(/\r?\n/).forEach(line => {
+      if (!line.trim()) return;
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        invalidLines++;
+      }
+    });
+    return { tables: [{ records }], invalidLines };
+  }
+
+  const parsed = JSON.parse(text.replace(/^\ufeff/, ''));
+  if (Array.isArray(parsed)) return { tables: [{ records: parsed }], invalidLines: 0 };
+
+  if (isPlainObject(parsed)) {
+    const tables = Object.entries(parsed)
+      .filter(([, value]) => Array.isArray(value) && value.some(isPlainObject))
+      .map(([name, value]) => ({ name, records: value as any[] }));
+    if (tables.length > 0) return { tables, invalidLines: 0 };
+  }
+
+  return { tables: [{ records: [parsed] }], invalidLines: 0 };
+}
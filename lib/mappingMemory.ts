@@ -0,0 +1,73 @@
+import { HeaderMapping, proposeHeaderMapping } from './headerMapping';
+import { SchemaRegistry, defaultSchemas } from './schemas';
+
+const STORAGE_KEY = 'data-alchemist:header-mappings';
+
+export interface RememberedMapping {
+  entity: string;
+  mapping: HeaderMapping[];
+  savedAt: string;
+}
+
+// Order-independent key for a set of uploaded headers
+export function getHeaderSignature(headers: string[]): string {
+  return headers
+    .map(header => header.trim().toLowerCase())
+    .sort()
+    .join('|');
+}
+
+export function loadMappingMemory(): Record<string, RememberedMapping> {
+  if (typeof window === 'undefined') return {};
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveMappingMemory(memory: Record<string, RememberedMapping>) {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(memory));
+  } catch (error) {
+    console.error('Failed to save header mappings:', error);
+  }
+}
+
+// Look up a mapping confirmed earlier for the same set of headers, columns the fresh proposal
+// would map the same way are not marked as coming from memory
+export function recallMapping(headers: string[], registry: SchemaRegistry = defaultSchemas): RememberedMapping | null {
+  const remembered = loadMappingMemory()[getHeaderSignature(headers)];
+  if (!remembered) return null;
+
+  // Only reuse the mapping when it still covers every header
+  const known = new Set(remembered.mapping.map(m => m.header));
+  if (!headers.every(header => known.has(header))) return null;
+
+  const proposed = new Map(proposeHeaderMapping(headers, remembered.entity, registry).map(m => [m.header, m]));
+  return {
+    ...remembered,
+    mapping: remembered.mapping.map(m => {
+      const fresh = proposed.get(m.header);
+      return { ...m, fromMemory: !fresh || fresh.field !== m.field || fresh.ignored !== m.ignored };
+    })
+  };
+}
+
+export function rememberMapping(headers: string[], entity: string, mapping: HeaderMapping[]) {
+  const memory = loadMappingMemory();
+  memory[getHeaderSignature(headers)] = {
+    entity,
+    mapping: mapping.map(({ fromMemory, ...m }) => m),
+    savedAt: new Date().toISOString()
+  };
+  saveMappingMemory(memory);
+}
+
+export function forgetMapping(headers: string[]) {
+  const memory = loadMappingMemory();
+  delete memory[getHeaderSignature(headers)];
+  saveMappingMemory(memory);
+}
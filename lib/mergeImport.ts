@@ -0,0 +1,149 @@
+// Which side wins a cell that was edited locally and also changed in the incoming file
+export type ConflictChoice = 'local' | 'incoming';
+
+export interface FieldChange {
+  column: string;
+  local: any;
+  incoming: any;
+  // Edited in the grid and changed in the file; plain updates take the incoming value
+  conflict: boolean;
+}
+
+export interface MergeUpdate {
+  id: string;
+  // Where the row was when the preview was built, shown to the user; the merge finds rows by ID
+  rowIndex: number;
+  changes: FieldChange[];
+}
+
+// What merging an incoming file into a table by ID would do
+export interface MergePreview {
+  idColumn: string;
+  inserts: any[];
+  updates: MergeUpdate[];
+  // Table rows whose ID is not in the incoming file
+  missing: { id: string; rowIndex: number }[];
+  newColumns: string[];
+  unchangedCount: number;
+  // Incoming rows dropped because their ID was empty or already seen
+  skippedCount: number;
+}
+
+export const conflictKey = (id: string, column: string) => `${id}:${column}`;
+
+export const toText = (value: any) => value === undefined || value === null ? '' : String(value).trim();
+export const sameValue = (a: any, b: any) => toText(a) === toText(b);
+
+// First row for each non-empty ID
+export function indexById(rows: any[], idColumn: string): Map<string, any> {
+  const byId = new Map<string, any>();
+  rows.forEach(row => {
+    const id = toText(row[idColumn]);
+    if (id && !byId.has(id)) byId.set(id, row);
+  });
+  return byId;
+}
+
+// Compare incoming rows with the table. Rows as first imported tell local edits apart from stale values,
+// they are looked up by ID so rows added or removed in the grid do not throw the comparison off.
+export function buildMergePreview(editedData: any[], importedData: any[], incoming: any[], idColumn: string): MergePreview {
+  const baseline = indexById(importedData, idColumn);
+  const incomingById = new Map<string, any>();
+  let skippedCount = 0;
+  incoming.forEach(row => {
+    const id = toText(row[idColumn]);
+    if (!id || incomingById.has(id)) skippedCount++;
+    else incomingById.set(id, row);
+  });
+
+  const tableColumns = editedData.length > 0 ? Object.keys(editedData[0]) : [];
+  const incomingColumns = incoming.length > 0 ? Object.keys(incoming[0]) : [];
+  const updates: MergeUpdate[] = [];
+  const missing: { id: string; rowIndex: number }[] = [];
+  const matched = new Set<string>();
+  let unchangedCount = 0;
+
+  editedData.forEach((row, rowIndex) => {
+    const id = toText(row[idColumn]);
+    const next = incomingById.get(id);
+    if (!id || !next || matched.has(id)) {
+      if (id && !next) missing.push({ id, rowIndex });
+      return;
+    }
+    matched.add(id);
+
+    const base = baseline.get(id);
+    const changes: FieldChange[] = [];
+    incomingColumns.forEach(column => {
+      const local = row[column];
+      const value = next[column];
+      if (sameValue(local, value)) return;
+      // The file still holds the imported value, so the local edit stands
+      if (base && sameValue(value, base[column])) return;
+      const editedLocally = !base || !sameValue(local, base[column]);
+      changes.push({ column, local: local ?? '', incoming: value ?? '', conflict: editedLocally && toText(local) !== '' });
+    });
+
+    if (changes.length > 0) updates.push({ id, rowIndex, changes });
+    else unchangedCount++;
+  });
+
+  return {
+    idColumn,
+    inserts: Array.from(incomingById.entries()).filter(([id]) => !matched.has(id)).map(([, row]) => row),
+    updates,
+    missing,
+    newColumns: incomingColumns.filter(column => !tableColumns.includes(column)),
+    unchangedCount,
+    skippedCount
+  };
+}
+
+// Merged table rows and the new import baseline. Conflicts default to the local edit.
+// Rows are found by ID, the table may have been edited, undone or extended since the preview was built.
+export function applyMerge(
+  editedData: any[],
+  importedData: any[],
+  incoming: any[],
+  preview: MergePreview,
+  choices: Record<string, ConflictChoice>,
+  removeMissing: boolean
+): { rows: any[]; importedData: any[] } {
+  const tableColumns = editedData.length > 0 ? Object.keys(editedData[0]) : [];
+  const columns = [...tableColumns, ...preview.newColumns];
+  const updatesById = new Map(preview.updates.map(update => [update.id, update]));
+  const removedIds = new Set(removeMissing ? preview.missing.map(m => m.id) : []);
+  const fill = (row: any) => Object.fromEntries(columns.map(column => [column, row[column] ?? '']));
+  const idOf = (row: any) => toText(row[preview.idColumn]);
+
+  // Like the preview, only the first row of an ID is updated
+  const updated = new Set<string>();
+  const rows = editedData
+    .filter(row => !removedIds.has(idOf(row)))
+    .map(row => {
+      const id = idOf(row);
+      const update = updated.has(id) ? undefined : updatesById.get(id);
+      // Rows left alone stay the same objects, so undo and redo can tell where they moved
+      if (!update) return preview.newColumns.length > 0 ? fill(row) : row;
+      updated.add(id);
+      const merged = fill(row);
+      update.changes.forEach(change => {
+        const choice = change.conflict ? choices[conflictKey(id, change.column)] ?? 'local' : 'incoming';
+        if (choice === 'incoming') merged[change.column] = change.incoming;
+      });
+      return merged;
+    });
+  // A row added in the grid since the preview is not inserted a second time
+  const tableIds = new Set(rows.map(idOf));
+  preview.inserts.filter(row => !tableIds.has(idOf(row))).forEach(row => rows.push(fill(row)));
+
+  // The incoming file becomes the reference for the rows it holds
+  const incomingById = indexById(incoming, preview.idColumn);
+  const baseline = importedData.filter(row => {
+    const id = toText(row[preview.idColumn]);
+    return !incomingById.has(id) && !removedIds.has(id);
+  });
+  incomingById.forEach(row => baseline.push(row));
+
+  return { rows, importedData: baseline };
+}
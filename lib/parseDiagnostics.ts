@@ -0,0 +1,176 @@
+import Papa from 'papaparse';
+
+export type ParseProblem = 'TooManyFields' | 'TooFewFields' | 'MissingQuotes' | 'InvalidQuotes';
+
+// A malformed CSV line held back from the table until the user repairs or drops it
+export interface ParseDiagnostic {
+  id: number;
+  line: number;
+  // Position among the clean rows where the line belongs
+  insertAt: number;
+  raw: string;
+  problem: ParseProblem;
+  message: string;
+  repair: any[];
+  repairNote: string;
+}
+
+// Running counters while a file is parsed chunk by chunk
+export interface DiagnosticCursor {
+  rowsKept: number;
+  rowsSeen: number;
+  nextId: number;
+}
+
+export const parseProblemLabels: Record<ParseProblem, string> = {
+  TooManyFields: 'Too many fields',
+  TooFewFields: 'Too few fields',
+  MissingQuotes: 'Missing closing quote',
+  InvalidQuotes: 'Malformed quotes',
+};
+
+const EXTRA_FIELDS = '__parsed_extra';
+
+function rowValues(row: any, fields: string[]): string[] {
+  const values = fields.filter(field => row[field] !== undefined).map(field => String(row[field]));
+  return Array.isArray(row[EXTRA_FIELDS]) ? [...values, ...row[EXTRA_FIELDS].map(String)] : values;
+}
+
+function toRow(values: string[], fields: string[]): Record<string, string> {
+  const row: Record<string, string> = {};
+  fields.forEach((field, index) => {
+    row[field] = values[index] ?? '';
+  });
+  return row;
+}
+
+function isBalanced(text: string): boolean {
+  let depth = 0;
+  for (const char of text) {
+    if (char === '{' || char === '[') depth++;
+    if (char === '}' || char === ']') depth--;
+    if (depth < 0) return false;
+  }
+  return depth === 0;
+}
+
+// Unquoted delimiters usually sit inside a JSON or list value, otherwise the overflow belongs to the last column
+function repairTooManyFields(values: string[], fields: string[], delimiter: string) {
+  const excess = values.length - fields.length;
+  const merge = (start: number) => [
+    ...values.slice(0, start),
+    values.slice(start, start + excess + 1).join(delimiter),
+    ...values.slice(start + excess + 1)
+  ];
+
+  let start = fields.length - 1;
+  for (let i = 0; i < fields.length; i++) {
+    const merged = values.slice(i, i + excess + 1).join(delimiter);
+    if (/^\s*[\[{]/.test(values[i]) && isBalanced(merged)) {
+      start = i;
+      break;
+    }
+  }
+
+  return {
+    repair: [toRow(merge(start), fields)],
+    repairNote: `Merge ${excess + 1} values into "${fields[start]}"`
+  };
+}
+
+function repairTooFewFields(values: string[], fields: string[]) {
+  const missing = fields.slice(values.length);
+  return {
+    repair: [toRow(values, fields)],
+    repairNote: `Fill ${missing.join(', ')} with empty values`
+  };
+}
+
+// A stray quote swallows the following lines into one field, so drop it and split the text again
+function repairQuotes(values: string[], fields: string[], delimiter: string) {
+  const text = values.join(delimiter).replace(/"/g, '');
+  const parsed = Papa.parse<string[]>(text, { delimiter, skipEmptyLines: true });
+  const rows = parsed.data.map(lineValues => toRow(lineValues, fields));
+  return {
+    repair: rows,
+    repairNote: rows.length > 1 ? `Remove the stray quote and split into ${rows.length} rows` : 'Remove the stray quote'
+  };
+}
+
+// Each row's text as it is in the file, found by parsing the chunk again row by row
+function splitRowText(text: string, delimiter: string, headerInChunk: boolean): string[] {
+  const lines: string[] = [];
+  let start = 0;
+  Papa.parse<string[]>(text, {
+    delimiter,
+    skipEmptyLines: true,
+    step: results => {
+      lines.push(text.slice(start, results.meta.cursor).replace(/^[\r\n]+|[\r\n]+$/g, ''));
+      start = results.meta.cursor;
+    }
+  });
+  return headerInChunk ? lines.slice(1) : lines;
+}
+
+function findProblem(row: any, fields: string[]): ParseProblem | null {
+  if (Array.isArray(row[EXTRA_FIELDS])) return 'TooManyFields';
+  if (fields.some(field => row[field] === undefined)) return 'TooFewFields';
+  return null;
+}
+
+// Split a parsed chunk into clean rows and diagnostics for malformed lines, text is the part of the
+// file the chunk was parsed from
+export function extractMalformedRows(
+  data: any[],
+  errors: Papa.ParseError[],
+  fields: string[],
+  delimiter: string,
+  cursor: DiagnosticCursor,
+  headerInChunk: boolean,
+  text: string
+): { rows: any[]; diagnostics: ParseDiagnostic[] } {
+  // Quote errors point at the row being parsed, counted before the header row was removed
+  const quoteErrors = new Map<number, Papa.ParseError>();
+  errors.forEach(error => {
+    if (error.type !== 'Quotes' || error.row === undefined) return;
+    const index = Math.min(Math.max(error.row - (headerInChunk ? 1 : 0), 0), data.length - 1);
+    quoteErrors.set(index, error);
+  });
+
+  const rows: any[] = [];
+  const diagnostics: ParseDiagnostic[] = [];
+  let rowText: string[] | null = null;
+
+  data.forEach((row, index) => {
+    const quoteError = quoteErrors.get(index);
+    const problem: ParseProblem | null = quoteError ? (quoteError.code as ParseProblem) : findProblem(row, fields);
+    const line = cursor.rowsSeen + index + 2;
+
+    if (!problem) {
+      rows.push(row);
+      return;
+    }
+
+    const values = rowValues(row, fields);
+    rowText = rowText ?? splitRowText(text, delimiter, headerInChunk);
+    const proposal = problem === 'TooManyFields'
+      ? repairTooManyFields(values, fields, delimiter)
+      : problem === 'TooFewFields'
+        ? repairTooFewFields(values, fields)
+        : repairQuotes(values, fields, delimiter);
+
+    diagnostics.push({
+      id: cursor.nextId++,
+      line,
+      insertAt: cursor.rowsKept + rows.length,
+      raw: rowText[index] ?? Papa.unparse([values], { delimiter }),
+      problem,
+      message: quoteError?.message ?? `Expected ${fields.length} fields but found ${values.length}`,
+      ...proposal
+    });
+  });
+
+  cursor.rowsKept += rows.length;
+  cursor.rowsSeen += data.length;
+  return { rows, diagnostics };
+}
@@ -0,0 +1,112 @@
+import Papa from 'papaparse';
+import * as XLSX from 'xlsx';
+import type { ParseRequest, ParseMessage } from './streamingImport';
+import { CsvParseOptions, bomLength, detectBom, detectEncoding, toPapaConfig } from './csvPreflight';
+import { DiagnosticCursor, extractMalformedRows } from './parseDiagnostics';
+import { SheetLayout, sheetToRows } from './sheetLayout';
+import { isJsonFile, parseJsonTables, flattenRecord, alignColumns } from './jsonImport';
+
+// Papa Parse parses roughly this many characters per chunk, XLSX sheets and JSON tables are posted in slices of this many rows
+const CSV_CHUNK_SIZE = 1024 * 1024;
+const TABLE_CHUNK_ROWS = 5000;
+
+const ctx = self as unknown as Worker;
+
+function post(message: ParseMessage) {
+  ctx.postMessage(message);
+}
+
+// The file is decoded here rather than by Papa Parse, so malformed lines can be shown with their text
+async function parseCsv(file: File, options?: CsvParseOptions) {
+  let rowsParsed = 0;
+  let posted = false;
+  let consumed = 0;
+  const cursor: DiagnosticCursor = { rowsKept: 0, rowsSeen: 0, nextId: 0 };
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const bom = options ? options.bom : detectBom(bytes);
+  const encoding = options?.encoding ?? detectEncoding(bytes, bom);
+  const text = new TextDecoder(encoding, { ignoreBOM: true }).decode(bytes.subarray(bomLength(bom)));
+
+  // The text is already decoded, so only the delimiter and the header clean-up apply
+  const { delimiter, transformHeader } = toPapaConfig(options);
+  Papa.parse<any>(text, {
+    delimiter,
+    transformHeader,
+    header: true,
+    skipEmptyLines: true,
+    chunkSize: CSV_CHUNK_SIZE,
+    chunk: (results: Papa.ParseResult<any>) => {
+      // Malformed lines are held back from the rows and reported for repair
+      const headerInChunk = !posted;
+      const chunkText = text.slice(consumed, results.meta.cursor);
+      consumed = results.meta.cursor;
+      const { rows, diagnostics } = extractMalformedRows(
+        results.data as any[], results.errors, results.meta.fields || [], results.meta.delimiter, cursor, headerInChunk, chunkText
+      );
+      rowsParsed += results.data.length;
+      posted = true;
+      // The cursor counts decoded characters, the progress bar shows bytes of the file
+      const bytesRead = Math.round(file.size * consumed / Math.max(text.length, 1));
+      post({ type: 'chunk', sheetCount: 1, rows, diagnostics, rowsParsed, bytesRead });
+    },
+    complete: () => {
+      // Empty files still produce a source so they show up in the import summary
+      if (!posted) post({ type: 'chunk', sheetCount: 1, rows: [], rowsParsed: 0, bytesRead: file.size });
+      post({ type: 'done', rowsParsed });
+    }
+  });
+}
+
+// Post a fully parsed table in slices, empty tables still produce a source
+function postTable(file: File, rows: any[], sheetName: string | undefined, sheetCount: number, rowsParsed: number, note?: string): number {
+  if (rows.length === 0) {
+    post({ type: 'chunk', sheetName, sheetCount, rows, rowsParsed, bytesRead: file.size, note });
+    return rowsParsed;
+  }
+  for (let start = 0; start < rows.length; start += TABLE_CHUNK_ROWS) {
+    const slice = rows.slice(start, start + TABLE_CHUNK_ROWS);
+    rowsParsed += slice.length;
+    post({ type: 'chunk', sheetName, sheetCount, rows: slice, rowsParsed, bytesRead: file.size, note });
+  }
+  return rowsParsed;
+}
+
+async function parseWorkbook(file: File, layouts: Record<string, SheetLayout> = {}) {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(new Uint8Array(buffer), { type: 'array' });
+  const sheetCount = workbook.SheetNames.length;
+  let rowsParsed = 0;
+
+  workbook.SheetNames.forEach(sheetName => {
+    rowsParsed = postTable(file, sheetToRows(workbook.Sheets[sheetName], layouts[sheetName]), sheetName, sheetCount, rowsParsed);
+  });
+
+  post({ type: 'done', rowsParsed });
+}
+
+async function parseJson(file: File, jsonColumns: string[] = []) {
+  const { tables, invalidLines } = parseJsonTables(await file.text(), file.name);
+  const note = invalidLines > 0 ? `Skipped ${invalidLines} invalid line${invalidLines !== 1 ? 's' : ''}` : undefined;
+  let rowsParsed = 0;
+
+  tables.forEach(table => {
+    const rows = alignColumns(table.records.map(record => flattenRecord(record, jsonColumns)));
+    rowsParsed = postTable(file, rows, table.name, tables.length, rowsParsed, note);
+  });
+
+  post({ type: 'done', rowsParsed });
+}
+
+// One file per worker, the main thread terminates the worker to cancel
+ctx.onmessage = (event: MessageEvent<ParseRequest>) => {
+  const { file, csvOptions, sheetLayouts, jsonColumns } = event.data;
+  const fileName = file.name.toLowerCase();
+
+  if (fileName.endsWith('.csv')) {
+    parseCsv(file, csvOptions).catch(err => post({ type: 'error', message: err?.message || 'Could not read CSV' }));
+  } else if (isJsonFile(fileName)) {
+    parseJson(file, jsonColumns).catch(err => post({ type: 'error', message: err?.message || 'Could not read JSON' }));
+  } else {
+    parseWorkbook(file, sheetLayouts).catch(err => post({ type: 'error', message: err?.message || 'Could not read workbook' }));
+  }
+};
@@ -0,0 +1,238 @@
+import { EntityType, FileMetadata } from './dataImport';
+import { HeaderMapping } from './headerMapping';
+import { GridViewSettings, defaultGridView } from './gridView';
+import { HistoryEntry } from './history';
+import { BusinessRule } from './ruleEngine';
+import { SuppressedIssue } from './validation';
+import { PrioritizationConfig } from './prioritizationEngine';
+import { SchemaRegistry, parseSchemas } from './schemas';
+import { StoredTable, Workspace } from './workspaceStore';
+
+const PROJECT_FORMAT = 'data-alchemist-project';
+const PROJECT_VERSION = 1;
+export const PROJECT_FILE_EXTENSION = '.alchemist.json';
+
+export interface ProjectTable {
+  file: FileMetadata | null;
+  // Normalized rows with every edit applied
+  rows: any[];
+  // Rows as imported, the baseline for later merges
+  importedRows: any[];
+}
+
+// Everything an analyst needs to continue someone else's work, in one file
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  metadata: {
+    name: string;
+    exportedAt: string;
+    activeEntity: EntityType | null;
+    rowCounts: Partial<Record<EntityType, number>>;
+  };
+  schemas: SchemaRegistry;
+  tables: Partial<Record<EntityType, ProjectTable>>;
+  // Original file header to canonical field, per table
+  headerMappings: Partial<Record<EntityType, HeaderMapping[]>>;
+  rules: BusinessRule[];
+  prioritizationConfig: PrioritizationConfig | null;
+  // Column order, hidden columns, sorting and filters of each table's grid
+  gridViews: Record<string, GridViewSettings>;
+  // Validation issues the user hid, by row ID
+  suppressedIssues: SuppressedIssue[];
+  history: { entries: HistoryEntry[]; position: number };
+}
+
+export function toProjectFile(workspace: Workspace): ProjectFile {
+  const tables: ProjectFile['tables'] = {};
+  const headerMappings: ProjectFile['headerMappings'] = {};
+  const rowCounts: ProjectFile['metadata']['rowCounts'] = {};
+  const entities = Object.keys(workspace.data.tables) as EntityType[];
+  entities.forEach(entity => {
+    const { file, editedData, importedData, headerMapping } = workspace.data.tables[entity]!;
+    tables[entity] = { file, rows: editedData, importedRows: importedData };
+    headerMappings[entity] = headerMapping;
+    rowCounts[entity] = editedData.length;
+  });
+
+  return {
+    format: PROJECT_FORMAT,
+    version: PROJECT_VERSION,
+    metadata: { name: workspace.name, exportedAt: new Date().toISOString(), activeEntity: workspace.data.activeEntity, rowCounts },
+    schemas: workspace.schemas,
+    tables,
+    headerMappings,
+    rules: workspace.rules,
+    prioritizationConfig: workspace.prioritizationConfig,
+    gridViews: workspace.gridViews,
+    suppressedIssues: workspace.suppressedIssues,
+    history: { entries: workspace.data.history, position: workspace.data.historyPosition }
+  };
+}
+
+export function serializeProjectFile(project: ProjectFile): string {
+  return JSON.stringify(project, null, 2);
+}
+
+const isArray = (value: any) => Array.isArray(value);
+const isObject = (value: any) => !!value && typeof value === 'object' && !isArray(value);
+const isIndex = (value: any) => Number.isInteger(value) && value >= 0;
+
+function checkRows(rows: any, what: string): any[] {
+  if (!isArray(rows)) throw new Error(`${what} are not a list of rows`);
+  const bad = rows.findIndex((row: any) => !isObject(row));
+  if (bad !== -1) throw new Error(`${what}: row ${bad + 1} is not an object`);
+  return rows;
+}
+
+function checkTable(entity: string, table: any): ProjectTable {
+  if (!isObject(table)) throw new Error(`Table "${entity}" is not an object`);
+  if (table.file != null && (!isObject(table.file) || typeof table.file.name !== 'string')) {
+    throw new Error(`Table "${entity}" has an invalid file description`);
+  }
+  const rows = checkRows(table.rows, `Rows of table "${entity}"`);
+  return {
+    file: table.file ?? null,
+    rows,
+    importedRows: table.importedRows === undefined ? rows : checkRows(table.importedRows, `Imported rows of table "${entity}"`)
+  };
+}
+
+function checkHeaderMapping(entity: string, mapping: any): HeaderMapping[] {
+  if (!isArray(mapping)) throw new Error(`Header mapping of "${entity}" is not a list`);
+  mapping.forEach((entry: any, idx: number) => {
+    const valid = isObject(entry) && typeof entry.header === 'string' && (entry.field === null || typeof entry.field === 'string')
+      && typeof entry.confidence === 'number' && typeof entry.ignored === 'boolean';
+    if (!valid) throw new Error(`Header mapping ${idx + 1} of "${entity}" is invalid`);
+  });
+  return mapping;
+}
+
+function checkPatch(patch: any): boolean {
+  if (patch?.kind === 'cells') {
+    return isArray(patch.changes) && patch.changes.every((change: any) => isObject(change) && isIndex(change.rowIndex) && typeof change.column === 'string');
+  }
+  const isRowChange = (change: any) => isObject(change) && isIndex(change.index) && isObject(change.row);
+  return patch?.kind === 'rows' && isArray(patch.removed) && isArray(patch.added) && patch.removed.every(isRowChange) && patch.added.every(isRowChange);
+}
+
+function checkHistory(history: any, tables: Record<string, unknown>): ProjectFile['history'] {
+  if (history === undefined) return { entries: [], position: 0 };
+  if (!isObject(history) || !isArray(history.entries)) throw new Error('History is not a list of entries');
+  history.entries.forEach((entry: any, idx: number) => {
+    const valid = isObject(entry) && typeof entry.id === 'number' && typeof entry.label === 'string'
+      && typeof entry.entity === 'string' && entry.entity in tables && checkPatch(entry.patch);
+    if (!valid) throw new Error(`History entry ${idx + 1} is invalid`);
+  });
+  if (!isIndex(history.position) || history.position > history.entries.length) {
+    throw new Error('History position is outside the history');
+  }
+  return { entries: history.entries, position: history.position };
+}
+
+function checkSuppressedIssues(issues: any, tables: Record<string, unknown>): SuppressedIssue[] {
+  if (issues === undefined) return [];
+  if (!isArray(issues)) throw new Error('Suppressed issues are not a list');
+  issues.forEach((issue: any, idx: number) => {
+    const valid = isObject(issue) && typeof issue.entity === 'string' && issue.entity in tables
+      && (issue.id === null || typeof issue.id === 'string') && typeof issue.message === 'string'
+      && (issue.column === undefined || typeof issue.column === 'string');
+    if (!valid) throw new Error(`Suppressed issue ${idx + 1} is invalid`);
+  });
+  return issues;
+}
+
+// Optional parts fall back to empty when missing, any part with the wrong shape fails the whole file
+export function parseProjectFile(json: string): ProjectFile {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Project file is not valid JSON, it may be cut off');
+  }
+  if (parsed?.format !== PROJECT_FORMAT) {
+    throw new Error('Not a Data Alchemist project file');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > PROJECT_VERSION) {
+    throw new Error(`Project file version ${parsed.version} is not supported, please update the app`);
+  }
+  if (!isObject(parsed.tables)) {
+    throw new Error('Project file has no tables');
+  }
+  const schemas = parseSchemas(JSON.stringify({ schemas: parsed.schemas ?? {} }));
+  const tables: ProjectFile['tables'] = {};
+  Object.entries(parsed.tables).forEach(([entity, table]: [string, any]) => {
+    if (!schemas[entity as EntityType]) throw new Error(`Table "${entity}" has no schema in the project file`);
+    tables[entity as EntityType] = checkTable(entity, table);
+  });
+
+  if (parsed.headerMappings !== undefined && !isObject(parsed.headerMappings)) {
+    throw new Error('Header mappings are not grouped by table');
+  }
+  const headerMappings: ProjectFile['headerMappings'] = {};
+  Object.entries(parsed.headerMappings ?? {}).forEach(([entity, mapping]) => {
+    if (entity in tables) headerMappings[entity as EntityType] = checkHeaderMapping(entity, mapping);
+  });
+
+  if (parsed.rules !== undefined && !isArray(parsed.rules)) throw new Error('Rules are not a list');
+  if (parsed.prioritizationConfig != null && !isObject(parsed.prioritizationConfig)) {
+    throw new Error('Prioritization settings are invalid');
+  }
+
+  // Views of tables the project does not hold are left out, missing settings take the defaults
+  const gridViews: Record<string, GridViewSettings> = {};
+  Object.entries(isObject(parsed.gridViews) ? parsed.gridViews : {}).forEach(([entity, view]: [string, any]) => {
+    if (entity in tables && isObject(view)) gridViews[entity] = { ...defaultGridView, ...view };
+  });
+
+  return {
+    format: PROJECT_FORMAT,
+    version: parsed.version,
+    metadata: {
+      name: parsed.metadata?.name || 'Imported project',
+      exportedAt: parsed.metadata?.exportedAt ?? '',
+      activeEntity: parsed.metadata?.activeEntity ?? null,
+      rowCounts: parsed.metadata?.rowCounts ?? {}
+    },
+    schemas,
+    tables,
+    headerMappings,
+    rules: parsed.rules ?? [],
+    prioritizationConfig: parsed.prioritizationConfig ?? null,
+    gridViews,
+    suppressedIssues: checkSuppressedIssues(parsed.suppressedIssues, tables),
+    history: checkHistory(parsed.history, tables)
+  };
+}
+
+// The project as a workspace, ready to be opened and autosaved under a new ID
+export function fromProjectFile(project: ProjectFile, id: string): Workspace {
+  const tables: Partial<Record<EntityType, StoredTable>> = {};
+  const entities = Object.keys(project.tables) as EntityType[];
+  entities.forEach(entity => {
+    const table = project.tables[entity]!;
+    tables[entity] = {
+      file: table.file ?? null,
+      editedData: table.rows,
+      importedData: table.importedRows,
+      headerMapping: project.headerMappings[entity] ?? []
+    };
+  });
+
+  return {
+    id,
+    name: project.metadata.name,
+    savedAt: new Date().toISOString(),
+    data: {
+      tables,
+      activeEntity: project.metadata.activeEntity,
+      history: project.history.entries,
+      historyPosition: project.history.position
+    },
+    schemas: project.schemas,
+    rules: project.rules,
+    prioritizationConfig: project.prioritizationConfig,
+    gridViews: project.gridViews,
+    suppressedIssues: project.suppressedIssues
+  };
+}
@@ -1,28 +1,150 @@
-export const schemas = {
+export type BuiltInEntityType = 'client' | 'worker' | 'task';
+// Entity types created by the user for files that fit none of the built-in ones
+export type CustomEntityType = `custom:${string}`;
+export type EntityType = BuiltInEntityType | CustomEntityType;
+
+export type FieldType = 'string' | 'integer' | 'number' | 'list' | 'phaseList' | 'json' | 'email' | 'date';
+
+export interface FieldDefinition {
+  name: string;
+  aliases: string[];
+  type: FieldType;
+  required: boolean;
+}
+
+export interface EntitySchema {
+  label: string;
+  fields: FieldDefinition[];
+}
+
+export type SchemaRegistry = Record<EntityType, EntitySchema>;
+
+export const builtInEntityTypes: BuiltInEntityType[] = ['client', 'worker', 'task'];
+
+export function isCustomEntity(entity: string): entity is CustomEntityType {
+  return entity.startsWith('custom:');
+}
+
+// Registry key for a new custom entity, numbered when the label is already taken
+export function getCustomEntityKey(label: string, registry: SchemaRegistry): CustomEntityType {
+  const slug = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '') || 'entity';
+  let key: CustomEntityType = `custom:${slug}`;
+  for (let n = 2; key in registry; n++) key = `custom:${slug}_${n}`;
+  return key;
+}
+
+export const fieldTypes: FieldType[] = ['string', 'integer', 'number', 'list', 'phaseList', 'json', 'email', 'date'];
+
+export const defaultSchemas: SchemaRegistry = {
   client: {
-    clientid: ["clientid", "client_id", "id"],
-    clientname: ["clientname", "client_name", "name"],
-    prioritylevel: ["prioritylevel", "priority_level", "priority"],
-    requestedtaskids: ["requestedtaskids", "requested_task_ids", "requestedtasks"],
-    grouptag: ["grouptag", "group_tag", "group"],
-    attributesjson: ["attributesjson", "attributes_json", "attributes"],
+    label: 'Clients',
+    fields: [
+      { name: 'clientid', aliases: ['client_id', 'id'], type: 'string', required: true },
+      { name: 'clientname', aliases: ['client_name', 'name'], type: 'string', required: true },
+      { name: 'prioritylevel', aliases: ['priority_level', 'priority'], type: 'integer', required: true },
+      { name: 'requestedtaskids', aliases: ['requested_task_ids', 'requestedtasks'], type: 'list', required: false },
+      { name: 'grouptag', aliases: ['group_tag', 'group'], type: 'string', required: false },
+      { name: 'attributesjson', aliases: ['attributes_json', 'attributes'], type: 'json', required: false },
+    ]
   },
   worker: {
-    workerid: ["workerid", "worker_id", "id"],
-    workername: ["workername", "worker_name", "name"],
-    skills: ["skills"],
-    availableslots: ["availableslots", "available_slots", "slots"],
-    maxloadperphase: ["maxloadperphase", "max_load_per_phase", "maxload"],
-    workergroup: ["workergroup", "worker_group", "group"],
-    qualificationlevel: ["qualificationlevel", "qualification_level", "qualification"],
+    label: 'Workers',
+    fields: [
+      { name: 'workerid', aliases: ['worker_id', 'id'], type: 'string', required: true },
+      { name: 'workername', aliases: ['worker_name', 'name'], type: 'string', required: true },
+      { name: 'skills', aliases: [], type: 'list', required: true },
+      { name: 'availableslots', aliases: ['available_slots', 'slots'], type: 'phaseList', required: true },
+      { name: 'maxloadperphase', aliases: ['max_load_per_phase', 'maxload'], type: 'integer', required: true },
+      { name: 'workergroup', aliases: ['worker_group', 'group'], type: 'string', required: false },
+      { name: 'qualificationlevel', aliases: ['qualification_level', 'qualification'], type: 'string', required: false },
+    ]
   },
   task: {
-    taskid: ["taskid", "task_id", "id"],
-    taskname: ["taskname", "task_name", "name"],
-    category: ["category"],
-    duration: ["duration"],
-    requiredskills: ["requiredskills", "required_skills", "skills"],
-    preferredphases: ["preferredphases", "preferred_phases", "phases"],
-    maxconcurrent: ["maxconcurrent", "max_concurrent", "concurrent"],
+    label: 'Tasks',
+    fields: [
+      { name: 'taskid', aliases: ['task_id', 'id'], type: 'string', required: true },
+      { name: 'taskname', aliases: ['task_name', 'name'], type: 'string', required: true },
+      { name: 'category', aliases: [], type: 'string', required: false },
+      { name: 'duration', aliases: [], type: 'integer', required: true },
+      { name: 'requiredskills', aliases: ['required_skills', 'skills'], type: 'list', required: true },
+      { name: 'preferredphases', aliases: ['preferred_phases', 'phases'], type: 'phaseList', required: true },
+      { name: 'maxconcurrent', aliases: ['max_concurrent', 'concurrent'], type: 'integer', required: true },
+    ]
   }
-};
\ No newline at end of file
+};
+
+// Canonical fields of every entity with all of their header variants
+export function toVariantMap(registry: SchemaRegistry): Record<EntityType, Record<string, string[]>> {
+  const variants = {} as Record<EntityType, Record<string, string[]>>;
+  (Object.keys(registry) as EntityType[]).forEach(entity => {
+    variants[entity] = {};
+    registry[entity].fields.forEach(field => {
+      variants[entity][field.name] = [field.name, ...field.aliases];
+    });
+  });
+  return variants;
+}
+
+export function getField(registry: SchemaRegistry, entity: string, name: string): FieldDefinition | undefined {
+  return registry[entity as EntityType]?.fields.find(field => field.name === name);
+}
+
+// Canonical name followed by every alias, for header lookups
+export function getFieldPatterns(registry: SchemaRegistry, entity: string, name: string): string[] {
+  const field = getField(registry, entity, name);
+  return field ? [field.name, ...field.aliases] : [name];
+}
+
+export function getRequiredFields(registry: SchemaRegistry, entity: string): string[] {
+  return (registry[entity as EntityType]?.fields || []).filter(field => field.required).map(field => field.name);
+}
+
+// Canonical primary key of an entity: the built-in ID fields, or the first "...id" field of a custom entity
+export function getIdField(registry: SchemaRegistry, entity: string): string | null {
+  const fields = registry[entity as EntityType]?.fields || [];
+  const idField = fields.find(field => field.name === `${entity}id`) || fields.find(field => field.name.endsWith('id')) || fields[0];
+  return idField?.name ?? null;
+}
+
+export function exportSchemas(registry: SchemaRegistry): string {
+  return JSON.stringify({ version: '1.0', schemas: registry }, null, 2);
+}
+
+function parseEntitySchema(entity: string, schema: any, defaultLabel: string): EntitySchema {
+  if (!schema || !Array.isArray(schema.fields)) {
+    throw new Error(`Missing fields for entity "${entity}"`);
+  }
+
+  const names = new Set<string>();
+  const fields = schema.fields.map((field: any, index: number) => {
+    const name = typeof field?.name === 'string' ? field.name.trim().toLowerCase() : '';
+    if (!name) throw new Error(`Field ${index + 1} of "${entity}" has no name`);
+    if (names.has(name)) throw new Error(`Duplicate field "${name}" in "${entity}"`);
+    if (!fieldTypes.includes(field.type)) throw new Error(`Unknown type "${field.type}" for field "${name}"`);
+    names.add(name);
+    return {
+      name,
+      aliases: Array.isArray(field.aliases) ? field.aliases.map((alias: any) => String(alias).trim()).filter(Boolean) : [],
+      type: field.type,
+      required: !!field.required
+    };
+  });
+
+  return { label: typeof schema.label === 'string' ? schema.label : defaultLabel, fields };
+}
+
+// Parse and check a schema file produced by exportSchemas
+export function parseSchemas(json: string): SchemaRegistry {
+  const parsed = JSON.parse(json);
+  const registry = parsed?.schemas ?? parsed;
+  const result = {} as SchemaRegistry;
+
+  builtInEntityTypes.forEach(entity => {
+    result[entity] = parseEntitySchema(entity, registry?.[entity], defaultSchemas[entity].label);
+  });
+  Object.keys(registry ?? {}).filter(isCustomEntity).forEach(entity => {
+    result[entity] = parseEntitySchema(entity, registry[entity], entity.slice('custom:'.length));
+  });
+
+  return result;
+}
@@ -0,0 +1,135 @@
+import * as XLSX from 'xlsx';
+
+// Where the table sits inside a sheet, row numbers are relative to the start of the sheet's range
+export interface SheetLayout {
+  headerRow: number;
+  headerDepth: number;
+  skipTrailing: number;
+}
+
+export interface SheetPreview {
+  fileId: string;
+  fileName: string;
+  sheetName: string;
+  rows: any[][];
+  merges: XLSX.Range[];
+  totalRows: number;
+  detected: SheetLayout;
+  layout: SheetLayout;
+}
+
+export const defaultSheetLayout: SheetLayout = { headerRow: 0, headerDepth: 1, skipTrailing: 0 };
+
+// Rows read from each sheet for the import preview
+export const PREVIEW_ROWS = 20;
+
+const isBlank = (value: any) => value === undefined || value === null || String(value).trim() === '';
+
+function toMatrix(worksheet: XLSX.WorkSheet): any[][] {
+  return XLSX.utils.sheet_to_json<any[]>(worksheet, { header: 1, defval: '', blankrows: true });
+}
+
+// Merged ranges shifted so row and column 0 are the start of the sheet's range
+function getMerges(worksheet: XLSX.WorkSheet): XLSX.Range[] {
+  const origin = XLSX.utils.decode_range(worksheet['!ref'] || 'A1').s;
+  return (worksheet['!merges'] || []).map(merge => ({
+    s: { r: merge.s.r - origin.r, c: merge.s.c - origin.c },
+    e: { r: merge.e.r - origin.r, c: merge.e.c - origin.c }
+  }));
+}
+
+// The header is the fullest row that holds only text, the first one on ties.
+// A merged banner directly above it turns it into a two-level header.
+export function detectSheetLayout(rows: any[][], merges: XLSX.Range[] = []): SheetLayout {
+  const filled = rows.map(row => row.filter(value => !isBlank(value)));
+  if (filled.every(values => values.length === 0)) return defaultSheetLayout;
+
+  let headerRow = -1;
+  filled.forEach((values, index) => {
+    const isCandidate = values.length >= 2 && values.every(value => typeof value === 'string');
+    if (isCandidate && (headerRow === -1 || values.length > filled[headerRow].length)) headerRow = index;
+  });
+  if (headerRow === -1) headerRow = filled.findIndex(values => values.length > 0);
+
+  const hasBannerAbove = headerRow > 0
+    && filled[headerRow - 1].length > 0
+    && merges.some(merge => merge.s.r === headerRow - 1 && merge.e.r === headerRow - 1 && merge.e.c > merge.s.c);
+
+  return hasBannerAbove
+    ? { headerRow: headerRow - 1, headerDepth: 2, skipTrailing: 0 }
+    : { headerRow, headerDepth: 1, skipTrailing: 0 };
+}
+
+// Join the levels of a multi-row header into one name per column, e.g. "Availability / Slots".
+// Upper levels carry over to the columns their merged (or blank) cells span.
+export function flattenHeaderRows(headerRows: any[][], merges: XLSX.Range[] = [], firstRow = 0): string[] {
+  const width = Math.max(0, ...headerRows.map(row => row.length));
+  const levels = headerRows.map((row, level) => {
+    const values = Array.from({ length: width }, (_, c) => isBlank(row[c]) ? '' : String(row[c]).trim());
+    merges
+      .filter(merge => merge.s.r <= firstRow + level && merge.e.r >= firstRow + level)
+      .forEach(merge => {
+        const value = values[merge.s.c] || String(headerRows[merge.s.r - firstRow]?.[merge.s.c] ?? '').trim();
+        for (let c = merge.s.c; c <= merge.e.c && c < width; c++) values[c] = value;
+      });
+    // Blank cells in an upper level belong to the group on their left
+    if (level < headerRows.length - 1) {
+      for (let c = 1; c < width; c++) {
+        if (!values[c]) values[c] = values[c - 1];
+      }
+    }
+    return values;
+  });
+
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, c) => {
+    const parts = levels.map(values => values[c]).filter((part, i, all) => part && all.indexOf(part) === i);
+    const name = parts.join(' / ') || `Column ${c + 1}`;
+    // Same suffix sheet_to_json uses for repeated headers
+    const count = seen.get(name) || 0;
+    seen.set(name, count + 1);
+    return count === 0 ? name : `${name}_${count}`;
+  });
+}
+
+// Rows of a sheet as objects keyed by the (flattened) header, skipping banners, blank rows and trailing rows
+export function sheetToRows(worksheet: XLSX.WorkSheet, layout: SheetLayout = defaultSheetLayout): any[] {
+  const matrix = toMatrix(worksheet);
+  const headerRows = matrix.slice(layout.headerRow, layout.headerRow + layout.headerDepth);
+  if (headerRows.length === 0) return [];
+
+  const headers = flattenHeaderRows(headerRows, getMerges(worksheet), layout.headerRow);
+  const body = matrix
+    .slice(layout.headerRow + layout.headerDepth)
+    .filter(row => row.some(value => !isBlank(value)));
+  const kept = body.slice(0, Math.max(0, body.length - layout.skipTrailing));
+
+  // Columns without a header or any value are just the edge of the sheet's range
+  const columns = headers
+    .map((header, c) => ({ header, c }))
+    .filter(({ c }) => headerRows.some(row => !isBlank(row[c])) || kept.some(values => !isBlank(values[c])));
+
+  return kept.map(values => {
+    const row: Record<string, any> = {};
+    columns.forEach(({ header, c }) => {
+      row[header] = values[c] ?? '';
+    });
+    return row;
+  });
+}
+
+// Read the top of every sheet so the user can check the detected layout before parsing
+export async function previewWorkbook(file: File, fileId: string): Promise<SheetPreview[]> {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(new Uint8Array(buffer), { type: 'array', sheetRows: PREVIEW_ROWS });
+
+  return workbook.SheetNames.map(sheetName => {
+    const worksheet = workbook.Sheets[sheetName];
+    const rows = toMatrix(worksheet);
+    const merges = getMerges(worksheet).filter(merge => merge.s.r < PREVIEW_ROWS);
+    const fullRange = worksheet['!fullref'] || worksheet['!ref'];
+    const totalRows = fullRange ? XLSX.utils.decode_range(fullRange).e.r - XLSX.utils.decode_range(fullRange).s.r + 1 : 0;
+    const detected = detectSheetLayout(rows, merges);
+    return { fileId, fileName: file.name, sheetName, rows, merges, totalRows, detected, layout: detected };
+  });
+}
@@ -0,0 +1,167 @@
+import { SchemaRegistry, defaultSchemas } from './schemas';
+import { getJsonColumns, isJsonFile } from './jsonImport';
+import { ImportedSource, classifyRows, getFileMetadata } from './dataImport';
+import { CsvParseOptions } from './csvPreflight';
+import { SheetLayout } from './sheetLayout';
+import { ParseDiagnostic } from './parseDiagnostics';
+
+// Message sent to the parse worker
+export interface ParseRequest {
+  file: File;
+  csvOptions?: CsvParseOptions;
+  sheetLayouts?: Record<string, SheetLayout>;
+  jsonColumns?: string[];
+}
+
+// A dropped or picked file with the ID its preflight settings are kept under
+export interface UploadedFile {
+  id: string;
+  file: File;
+}
+
+// Settings confirmed in the import preflight, keyed by uploaded file ID
+export interface ImportSettings {
+  csvOptions?: Record<string, CsvParseOptions>;
+  sheetLayouts?: Record<string, Record<string, SheetLayout>>;
+}
+
+// Messages posted back by the parse worker
+export type ParseMessage =
+  | { type: 'chunk'; sheetName?: string; sheetCount: number; rows: any[]; diagnostics?: ParseDiagnostic[]; rowsParsed: number; bytesRead: number; note?: string }
+  | { type: 'done'; rowsParsed: number }
+  | { type: 'error'; message: string };
+
+export interface ImportProgress {
+  fileName: string;
+  fileIndex: number;
+  fileCount: number;
+  rowsParsed: number;
+  bytesRead: number;
+  totalBytes: number;
+}
+
+export interface StreamingImportHandlers {
+  // A source was classified from its first chunk
+  onSource?: (source: ImportedSource) => void;
+  // Further raw rows arrived for a source reported through onSource
+  onRows?: (source: ImportedSource, rows: any[]) => void;
+  onProgress?: (progress: ImportProgress) => void;
+}
+
+export interface StreamingImport {
+  result: Promise<ImportedSource[]>;
+  cancel: () => void;
+}
+
+export function isImportCancelled(error: any): boolean {
+  return error?.name === 'AbortError';
+}
+
+function isSupportedFile(file: File): boolean {
+  const fileName = file.name.toLowerCase();
+  return fileName.endsWith('.csv') || fileName.endsWith('.xlsx') || fileName.endsWith('.xls') || isJsonFile(fileName);
+}
+
+// Parse and classify a batch of CSV/XLSX/JSON files in a Web Worker, reporting rows as they stream in
+export function streamImportFiles(
+  files: UploadedFile[],
+  registry: SchemaRegistry = defaultSchemas,
+  handlers: StreamingImportHandlers = {},
+  settings: ImportSettings = {}
+): StreamingImport {
+  let cancelled = false;
+  let activeWorker: Worker | null = null;
+  let rejectActive: ((error: Error) => void) | null = null;
+
+  const cancelError = () => new DOMException('Import cancelled', 'AbortError');
+
+  function streamFile({ id, file }: UploadedFile, fileIndex: number): Promise<ImportedSource[]> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('./parseWorker.ts', import.meta.url));
+      const tables = new Map<string, { source: ImportedSource; rows: any[]; diagnostics: ParseDiagnostic[] }>();
+      activeWorker = worker;
+      rejectActive = reject;
+
+      const finish = () => {
+        worker.terminate();
+        activeWorker = null;
+        rejectActive = null;
+      };
+
+      worker.onmessage = (event: MessageEvent<ParseMessage>) => {
+        const message = event.data;
+
+        if (message.type === 'chunk') {
+          const key = message.sheetName ?? '';
+          const table = tables.get(key);
+          if (table) {
+            message.rows.forEach(row => table.rows.push(row));
+            table.diagnostics.push(...(message.diagnostics || []));
+            handlers.onRows?.(table.source, message.rows);
+          } else {
+            // The first chunk carries the headers, which is all classification needs
+            const name = message.sheetName && message.sheetCount > 1 ? `${file.name} / ${message.sheetName}` : file.name;
+            const classified = classifyRows(name, message.rows, registry);
+            const source = { ...classified, file: getFileMetadata(file, message.sheetName), note: message.note ?? classified.note };
+            tables.set(key, { source, rows: [...message.rows], diagnostics: [...(message.diagnostics || [])] });
+            handlers.onSource?.(source);
+          }
+          handlers.onProgress?.({
+            fileName: file.name,
+            fileIndex,
+            fileCount: files.length,
+            rowsParsed: message.rowsParsed,
+            bytesRead: message.bytesRead,
+            totalBytes: file.size
+          });
+        } else if (message.type === 'done') {
+          finish();
+          resolve(Array.from(tables.values()).map(({ source, rows, diagnostics }) => ({
+            ...source,
+            rows,
+            rowCount: rows.length,
+            ...(diagnostics.length > 0 ? { diagnostics } : {})
+          })));
+        } else {
+          finish();
+          reject(new Error(message.message));
+        }
+      };
+
+      worker.onerror = (event) => {
+        finish();
+        reject(new Error(event.message || 'Parse worker failed'));
+      };
+
+      worker.postMessage({
+        file,
+        csvOptions: settings.csvOptions?.[id],
+        sheetLayouts: settings.sheetLayouts?.[id],
+        jsonColumns: getJsonColumns(registry)
+      } as ParseRequest);
+    });
+  }
+
+  const result = (async () => {
+    const sources: ImportedSource[] = [];
+    for (let i = 0; i < files.length; i++) {
+      if (cancelled) throw cancelError();
+      const { file } = files[i];
+      if (!isSupportedFile(file)) {
+        sources.push({ ...classifyRows(file.name, []), file: getFileMetadata(file), note: 'Unsupported file type' });
+        continue;
+      }
+      sources.push(...await streamFile(files[i], i));
+    }
+    return sources;
+  })();
+
+  const cancel = () => {
+    if (cancelled) return;
+    cancelled = true;
+    activeWorker?.terminate();
+    rejectActive?.(cancelError());
+  };
+
+  return { result, cancel };
+}
@@ -0,0 +1,133 @@
+import { ValidationResult, summarizeErrors } from './validation';
+import { MergePreview } from './mergeImport';
+import { HistoryPatch } from './history';
+
+export type RowAction = 'insertAbove' | 'insertBelow' | 'duplicate' | 'delete';
+
+// Where a row index ends up after rows are inserted or deleted, null when the row is gone
+export type RowIndexMap = (rowIndex: number) => number | null;
+
+export interface RowEdit {
+  data: any[];
+  mapIndex: RowIndexMap;
+  label: string;
+}
+
+const blankRow = (columns: string[]) => Object.fromEntries(columns.map(column => [column, '']));
+
+function insertRows(data: any[], index: number, rows: any[]): any[] {
+  return [...data.slice(0, index), ...rows, ...data.slice(index)];
+}
+
+const shiftFrom = (index: number, count: number): RowIndexMap =>
+  rowIndex => rowIndex >= index ? rowIndex + count : rowIndex;
+
+export function deleteRows(data: any[], rowIndices: number[]): RowEdit {
+  const deleted = Array.from(new Set(rowIndices)).sort((a, b) => a - b);
+  const mapIndex: RowIndexMap = rowIndex => {
+    if (deleted.includes(rowIndex)) return null;
+    return rowIndex - deleted.filter(idx => idx < rowIndex).length;
+  };
+  return {
+    data: data.filter((_, idx) => !deleted.includes(idx)),
+    mapIndex,
+    label: deleted.length === 1 ? `Delete row ${deleted[0] + 1}` : `Delete ${deleted.length} rows`
+  };
+}
+
+export function applyRowAction(data: any[], action: RowAction, rowIndex: number): RowEdit {
+  const columns = Object.keys(data[0] ?? {});
+  switch (action) {
+    case 'insertAbove':
+      return { data: insertRows(data, rowIndex, [blankRow(columns)]), mapIndex: shiftFrom(rowIndex, 1), label: `Insert row above row ${rowIndex + 1}` };
+    case 'insertBelow':
+      return { data: insertRows(data, rowIndex + 1, [blankRow(columns)]), mapIndex: shiftFrom(rowIndex + 1, 1), label: `Insert row below row ${rowIndex + 1}` };
+    case 'duplicate':
+      return { data: insertRows(data, rowIndex + 1, [{ ...data[rowIndex] }]), mapIndex: shiftFrom(rowIndex + 1, 1), label: `Duplicate row ${rowIndex + 1}` };
+    case 'delete':
+      return deleteRows(data, [rowIndex]);
+  }
+}
+
+// Rows put back at a position of the imported rows land in the edited rows before the first later
+// imported row still there, so edits, sorting and deletions made since the import are kept
+export function insertImportedRows(data: any[], importedData: any[], index: number, rows: any[]): RowEdit & { importedData: any[] } {
+  const positions = new Map(data.map((row, idx) => [row, idx]));
+  const next = importedData.slice(index).find(row => positions.has(row));
+  const at = next === undefined ? data.length : positions.get(next)!;
+  return {
+    data: insertRows(data, at, rows),
+    importedData: insertRows(importedData, index, rows),
+    mapIndex: shiftFrom(at, rows.length),
+    label: rows.length === 1 ? `Repaired CSV line at row ${at + 1}` : `Repaired CSV lines at row ${at + 1}`
+  };
+}
+
+export function addColumn(data: any[], column: string): any[] {
+  return data.map(row => column in row ? row : { ...row, [column]: '' });
+}
+
+export function deleteColumn(data: any[], column: string): any[] {
+  return data.map(row => {
+    const copy = { ...row };
+    delete copy[column];
+    return copy;
+  });
+}
+
+// Where rows end up when a history entry that took out or put in rows is undone or redone. Cell edits
+// leave every row in place.
+export function historyIndexMap(patch: HistoryPatch, direction: 'undo' | 'redo'): RowIndexMap | null {
+  if (patch.kind === 'cells') return null;
+  const [takenOut, putIn] = direction === 'undo' ? [patch.added, patch.removed] : [patch.removed, patch.added];
+  // Rows replaced where they stand, such as when a column is added or removed, keep their order
+  if (takenOut.length === putIn.length && takenOut.every((change, idx) => change.index === putIn[idx].index)) {
+    return rowIndex => rowIndex;
+  }
+  const takenOutIndices = new Set(takenOut.map(change => change.index));
+  return rowIndex => {
+    if (takenOutIndices.has(rowIndex)) return null;
+    let mapped = rowIndex - takenOut.filter(change => change.index < rowIndex).length;
+    for (const change of putIn) {
+      if (change.index > mapped) break;
+      mapped++;
+    }
+    return mapped;
+  };
+}
+
+export const composeIndexMaps = (maps: RowIndexMap[]): RowIndexMap =>
+  rowIndex => maps.reduce<number | null>((idx, mapIndex) => idx === null ? null : mapIndex(idx), rowIndex);
+
+export function remapRowIndices(rowIndices: number[], mapIndex: RowIndexMap): number[] {
+  return rowIndices.map(mapIndex).filter((idx): idx is number => idx !== null);
+}
+
+// Keyed by row index, as the inline row errors are
+export function remapRowRecord<T>(record: Record<number, T>, mapIndex: RowIndexMap): Record<number, T> {
+  const remapped: Record<number, T> = {};
+  Object.entries(record).forEach(([rowIndex, value]) => {
+    const idx = mapIndex(Number(rowIndex));
+    if (idx !== null) remapped[idx] = value;
+  });
+  return remapped;
+}
+
+// Errors of deleted rows are dropped, the others follow their row until validation runs again
+export function remapValidationResult(result: ValidationResult, mapIndex: RowIndexMap): ValidationResult {
+  const errors = result.errors.flatMap(error => {
+    if (error.rowIndex === undefined) return [error];
+    const rowIndex = mapIndex(error.rowIndex);
+    return rowIndex === null ? [] : [{ ...error, rowIndex }];
+  });
+  return { errors, summary: summarizeErrors(errors) };
+}
+
+// A merge waiting for review points at table rows too; deleted rows just drop out of it
+export function remapMergePreview(preview: MergePreview, mapIndex: RowIndexMap): MergePreview {
+  const follow = <T extends { rowIndex: number }>(items: T[]): T[] => items.flatMap(item => {
+    const rowIndex = mapIndex(item.rowIndex);
+    return rowIndex === null ? [] : [{ ...item, rowIndex }];
+  });
+  return { ...preview, updates: follow(preview.updates), missing: follow(preview.missing) };
+}
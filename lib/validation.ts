@@ -1,3 +1,9 @@
+import { EntityType, SchemaRegistry, defaultSchemas, getField, getFieldPatterns, getIdField, getRequiredFields, isCustomEntity } from './schemas';
+import { parseCommaSeparated, parsePhaseRange, parseJSON, checkFieldType } from './valueParsers';
+import { ColumnProfile, profileColumn, matchesInferredType } from './columnProfile';
+
+export { checkFieldType } from './valueParsers';
+
 export interface ValidationError {
   type: 'error' | 'warning' | 'info';
   message: string;
@@ -19,7 +25,8 @@ export interface ValidationResult {
 
 export interface ValidationRule {
   name: string;
-  validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData) => ValidationError[];
+  // Column profiles of the data, when the caller already has them
+  validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas?: SchemaRegistry, profiles?: Record<string, ColumnProfile>) => ValidationError[];
   description: string;
 }
 
@@ -46,93 +53,172 @@ export interface WorkerData {
   maxLoadPerPhase: number;
 }
 
-// Helper functions for data parsing
-function parseCommaSeparated(value: any): string[] {
-  if (!value) return [];
-  if (Array.isArray(value)) return value;
-  if (typeof value === 'string') {
-    return value.split(',').map(s => s.trim()).filter(s => s.length > 0);
-  }
-  return [];
+// Inline checks for a single row: required fields and email format
+export function validateRow(row: any, entityType: string, schemas: SchemaRegistry = defaultSchemas): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const fields = schemas[entityType as EntityType]?.fields || [];
+  
+  fields.forEach(field => {
+    const value = row[field.name];
+    if (value === undefined || value === null || value.toString().trim() === '') {
+      if (field.required) errors[field.name] = 'Required';
+      return;
+    }
+    if (field.type === 'email') {
+      const problem = checkFieldType(value, field.type);
+      if (problem) errors[field.name] = 'Invalid email';
+    }
+  });
+  
+  return errors;
 }
 
-function parsePhaseRange(value: any): number[] {
-  if (!value) return [];
-  if (Array.isArray(value)) return value;
-  if (typeof value === 'string') {
-    // Handle range syntax like "1-3" or "2-4,6"
-    const parts = value.split(',');
-    const phases: number[] = [];
+// Shared rules driven by the entity schema
+const requiredColumnsRule: ValidationRule = {
+  name: 'required_columns',
+  description: 'Check for missing required columns',
+  validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas) => {
+    const errors: ValidationError[] = [];
+    const requiredColumns = getRequiredFields(schemas, entityType);
     
-    for (const part of parts) {
-      const trimmed = part.trim();
-      if (trimmed.includes('-')) {
-        const [start, end] = trimmed.split('-').map(s => parseInt(s.trim()));
-        if (!isNaN(start) && !isNaN(end) && start <= end) {
-          for (let i = start; i <= end; i++) {
-            phases.push(i);
-          }
-        }
-      } else {
-        const num = parseInt(trimmed);
-        if (!isNaN(num)) {
-          phases.push(num);
-        }
-      }
+    if (data.length === 0) return errors;
+    
+    const headers = Object.keys(data[0]);
+    const missingColumns = requiredColumns.filter(col => 
+      !headers.some(header => header.toLowerCase().includes(col.toLowerCase()))
+    );
+    
+    if (missingColumns.length > 0) {
+      errors.push({
+        type: 'error',
+        message: `Missing required columns: ${missingColumns.join(', ')}`,
+        severity: 'high'
+      });
     }
     
-    return phases;
+    return errors;
   }
-  return [];
-}
+};
 
-function parseJSON(value: any): any {
-  if (!value) return null;
-  if (typeof value === 'object') return value;
-  if (typeof value === 'string') {
-    try {
-      return JSON.parse(value);
-    } catch {
-      return null;
-    }
+const fieldTypesRule: ValidationRule = {
+  name: 'field_types',
+  description: 'Validate every field against its current schema type',
+  validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas) => {
+    const errors: ValidationError[] = [];
+    // Built-in fields too, their type may have been changed in the schema editor
+    const fields = schemas[entityType as EntityType]?.fields || [];
+    
+    if (fields.length === 0) return errors;
+    
+    data.forEach((row, index) => {
+      fields.forEach(field => {
+        const value = row[field.name];
+        if (value === undefined || value === null || value === '') return;
+        const problem = checkFieldType(value, field.type);
+        if (problem) {
+          errors.push({
+            type: 'error',
+            message: `${field.name} ${problem}`,
+            rowIndex: index,
+            column: field.name,
+            value,
+            severity: 'medium'
+          });
+        }
+      });
+    });
+    
+    return errors;
   }
-  return null;
-}
+};
 
-// Validation rules for different entity types
-export const validationRules: Record<string, ValidationRule[]> = {
-  client: [
-    {
-      name: 'required_columns',
-      description: 'Check for missing required columns',
-      validate: (data: any[], entityType: string) => {
-        const errors: ValidationError[] = [];
-        const requiredColumns = ['clientid', 'clientname', 'prioritylevel'];
-        
-        if (data.length === 0) return errors;
-        
-        const headers = Object.keys(data[0]);
-        const missingColumns = requiredColumns.filter(col => 
-          !headers.some(header => header.toLowerCase().includes(col.toLowerCase()))
-        );
-        
-        if (missingColumns.length > 0) {
+// Bounds of a numeric field, values of the wrong type are only reported by fieldTypesRule
+function fieldRangeRule(name: string, entity: string, field: string, label: string, min: number, max?: number): ValidationRule {
+  const message = max === undefined ? `${label} must be >= ${min}` : `${label} must be between ${min} and ${max}`;
+  return {
+    name,
+    description: `Validate ${message.replace(' must be ', ' is ')}`,
+    validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas) => {
+      const errors: ValidationError[] = [];
+      const column = findFieldColumn(data, schemas, entity, field);
+      
+      if (!column) return errors;
+      
+      const type = getField(schemas, entity, field)?.type ?? 'number';
+      data.forEach((row, index) => {
+        const value = row[column];
+        if (value === undefined || value === null || value === '' || checkFieldType(value, type)) return;
+        const num = Number(value);
+        if (num < min || (max !== undefined && num > max)) {
           errors.push({
             type: 'error',
-            message: `Missing required columns: ${missingColumns.join(', ')}`,
-            severity: 'high'
+            message,
+            rowIndex: index,
+            column,
+            value,
+            severity: 'medium'
           });
         }
-        
-        return errors;
-      }
-    },
+      });
+      
+      return errors;
+    }
+  };
+}
+
+// Columns outside the schema get their type from the data, values that break the pattern are flagged
+const columnTypeOutliersRule: ValidationRule = {
+  name: 'column_type_outliers',
+  description: 'Flag values that do not match the inferred type of an unmapped column',
+  validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas, profiles?: Record<string, ColumnProfile>) => {
+    const errors: ValidationError[] = [];
+    if (data.length === 0) return errors;
+    const schemaFields = new Set((schemas[entityType as EntityType]?.fields || []).map(field => field.name));
+    const columns = Object.keys(data[0]).filter(column => !schemaFields.has(column));
+    
+    columns.forEach(column => {
+      const profile = profiles?.[column] ?? profileColumn(data, column);
+      if (profile.inferredType === 'string' || profile.mismatchCount === 0) return;
+      
+      data.forEach((row, index) => {
+        const value = row[column];
+        if (value === undefined || value === null || String(value).trim() === '') return;
+        if (!matchesInferredType(value, profile.inferredType)) {
+          errors.push({
+            type: 'warning',
+            message: `${column} looks like a ${profile.inferredType} column, but this value does not match`,
+            rowIndex: index,
+            column,
+            value,
+            severity: 'low'
+          });
+        }
+      });
+    });
+    
+    return errors;
+  }
+};
+
+// Custom entities only get the checks their schema can drive
+const customEntityRules: ValidationRule[] = [
+  requiredColumnsRule,
+  fieldTypesRule,
+  columnTypeOutliersRule
+];
+
+// Validation rules for different entity types
+export const validationRules: Record<string, ValidationRule[]> = {
+  client: [
+    requiredColumnsRule,
+    fieldTypesRule,
+    columnTypeOutliersRule,
     {
       name: 'duplicate_client_ids',
       description: 'Check for duplicate ClientIDs',
-      validate: (data: any[], entityType: string) => {
+      validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas) => {
         const errors: ValidationError[] = [];
-        const idColumn = findColumnByPattern(data, ['clientid', 'client_id', 'id']);
+        const idColumn = findFieldColumn(data, schemas, 'client', 'clientid');
         
         if (!idColumn) return errors;
         
@@ -159,127 +245,19 @@ export const validationRules: Record<string, ValidationRule[]> = {
         return errors;
       }
     },
-    {
-      name: 'priority_level_validation',
-      description: 'Validate PriorityLevel is between 1-5',
-      validate: (data: any[], entityType: string) => {
-        const errors: ValidationError[] = [];
-        const priorityColumn = findColumnByPattern(data, ['prioritylevel', 'priority_level', 'priority']);
-        
-        if (!priorityColumn) return errors;
-        
-        data.forEach((row, index) => {
-          const priority = row[priorityColumn];
-          if (priority !== undefined && priority !== '') {
-            const priorityNum = typeof priority === 'number' ? priority : parseInt(priority);
-            if (isNaN(priorityNum) || priorityNum < 1 || priorityNum > 5) {
-              errors.push({
-                type: 'error',
-                message: 'PriorityLevel must be between 1 and 5',
-                rowIndex: index,
-                column: priorityColumn,
-                value: priority,
-                severity: 'medium'
-              });
-            }
-          }
-        });
-        
-        return errors;
-      }
-    },
-    {
-      name: 'requested_tasks_format',
-      description: 'Validate RequestedTaskIDs format (comma-separated)',
-      validate: (data: any[], entityType: string) => {
-        const errors: ValidationError[] = [];
-        const tasksColumn = findColumnByPattern(data, ['requestedtaskids', 'requested_task_ids', 'requestedtasks']);
-        
-        if (!tasksColumn) return errors;
-        
-        data.forEach((row, index) => {
-          const tasks = row[tasksColumn];
-          if (tasks && tasks !== '') {
-            const taskIds = parseCommaSeparated(tasks);
-            if (taskIds.length === 0) {
-              errors.push({
-                type: 'warning',
-                message: 'RequestedTaskIDs should contain valid task IDs',
-                rowIndex: index,
-                column: tasksColumn,
-                value: tasks,
-                severity: 'medium'
-              });
-            }
-          }
-        });
-        
-        return errors;
-      }
-    },
-    {
-      name: 'attributes_json_validation',
-      description: 'Validate AttributesJSON format',
-      validate: (data: any[], entityType: string) => {
-        const errors: ValidationError[] = [];
-        const attributesColumn = findColumnByPattern(data, ['attributesjson', 'attributes_json', 'attributes']);
-        
-        if (!attributesColumn) return errors;
-        
-        data.forEach((row, index) => {
-          const attributes = row[attributesColumn];
-          if (attributes && attributes !== '') {
-            const parsed = parseJSON(attributes);
-            if (parsed === null) {
-              errors.push({
-                type: 'error',
-                message: 'AttributesJSON must be valid JSON',
-                rowIndex: index,
-                column: attributesColumn,
-                value: attributes,
-                severity: 'medium'
-              });
-            }
-          }
-        });
-        
-        return errors;
-      }
-    }
+    fieldRangeRule('priority_level_validation', 'client', 'prioritylevel', 'PriorityLevel', 1, 5)
   ],
   
   worker: [
-    {
-      name: 'required_columns',
-      description: 'Check for missing required columns',
-      validate: (data: any[], entityType: string) => {
-        const errors: ValidationError[] = [];
-        const requiredColumns = ['workerid', 'workername', 'skills', 'availableslots', 'maxloadperphase'];
-        
-        if (data.length === 0) return errors;
-        
-        const headers = Object.keys(data[0]);
-        const missingColumns = requiredColumns.filter(col => 
-          !headers.some(header => header.toLowerCase().includes(col.toLowerCase()))
-        );
-        
-        if (missingColumns.length > 0) {
-          errors.push({
-            type: 'error',
-            message: `Missing required columns: ${missingColumns.join(', ')}`,
-            severity: 'high'
-          });
-        }
-        
-        return errors;
-      }
-    },
+    requiredColumnsRule,
+    fieldTypesRule,
+    columnTypeOutliersRule,
     {
       name: 'duplicate_worker_ids',
       description: 'Check for duplicate WorkerIDs',
-      validate: (data: any[], entityType: string) => {
+      validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas) => {
         const errors: ValidationError[] = [];
-        const idColumn = findColumnByPattern(data, ['workerid', 'worker_id', 'id']);
+        const idColumn = findFieldColumn(data, schemas, 'worker', 'workerid');
         
         if (!idColumn) return errors;
         
@@ -306,110 +284,13 @@ export const validationRules: Record<string, ValidationRule[]> = {
         return errors;
       }
     },
-    {
-      name: 'skills_format',
-      description: 'Validate Skills format (comma-separated)',
-      validate: (data: any[], entityType: string) => {
-        const errors: ValidationError[] = [];
-        const skillsColumn = findColumnByPattern(data, ['skills']);
-        
-        if (!skillsColumn) return errors;
-        
-        data.forEach((row, index) => {
-          const skills = row[skillsColumn];
-          if (skills && skills !== '') {
-            const skillList = parseCommaSeparated(skills);
-            if (skillList.length === 0) {
-              errors.push({
-                type: 'warning',
-                message: 'Skills should contain valid skill tags',
-                rowIndex: index,
-                column: skillsColumn,
-                value: skills,
-                severity: 'medium'
-              });
-            }
-          }
-        });
-        
-        return errors;
-      }
-    },
-    {
-      name: 'available_slots_format',
-      description: 'Validate AvailableSlots format (array of phase numbers)',
-      validate: (data: any[], entityType: string) => {
-        const errors: ValidationError[] = [];
-        const slotsColumn = findColumnByPattern(data, ['availableslots', 'available_slots', 'slots']);
-        
-        if (!slotsColumn) return errors;
-        
-        data.forEach((row, index) => {
-          const slots = row[slotsColumn];
-          if (slots) {
-            try {
-              const slotsArray = Array.isArray(slots) ? slots : JSON.parse(slots);
-              if (!Array.isArray(slotsArray) || !slotsArray.every(slot => typeof slot === 'number' && slot > 0)) {
-                errors.push({
-                  type: 'error',
-                  message: 'AvailableSlots must be an array of positive numbers',
-                  rowIndex: index,
-                  column: slotsColumn,
-                  value: slots,
-                  severity: 'medium'
-                });
-              }
-            } catch (e) {
-              errors.push({
-                type: 'error',
-                message: 'AvailableSlots must be a valid JSON array of numbers',
-                rowIndex: index,
-                column: slotsColumn,
-                value: slots,
-                severity: 'medium'
-              });
-            }
-          }
-        });
-        
-        return errors;
-      }
-    },
-    {
-      name: 'max_load_validation',
-      description: 'Validate MaxLoadPerPhase is positive',
-      validate: (data: any[], entityType: string) => {
-        const errors: ValidationError[] = [];
-        const maxLoadColumn = findColumnByPattern(data, ['maxloadperphase', 'max_load_per_phase', 'maxload']);
-        
-        if (!maxLoadColumn) return errors;
-        
-        data.forEach((row, index) => {
-          const maxLoad = row[maxLoadColumn];
-          if (maxLoad !== undefined && maxLoad !== '') {
-            const maxLoadNum = typeof maxLoad === 'number' ? maxLoad : parseInt(maxLoad);
-            if (isNaN(maxLoadNum) || maxLoadNum < 1) {
-              errors.push({
-                type: 'error',
-                message: 'MaxLoadPerPhase must be >= 1',
-                rowIndex: index,
-                column: maxLoadColumn,
-                value: maxLoad,
-                severity: 'medium'
-              });
-            }
-          }
-        });
-        
-        return errors;
-      }
-    },
+    fieldRangeRule('max_load_validation', 'worker', 'maxloadperphase', 'MaxLoadPerPhase', 1),
     {
       name: 'qualification_level_validation',
       description: 'Validate QualificationLevel format',
-      validate: (data: any[], entityType: string) => {
+      validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas) => {
         const errors: ValidationError[] = [];
-        const qualColumn = findColumnByPattern(data, ['qualificationlevel', 'qualification_level', 'qualification']);
+        const qualColumn = findFieldColumn(data, schemas, 'worker', 'qualificationlevel');
         
         if (!qualColumn) return errors;
         
@@ -436,37 +317,15 @@ export const validationRules: Record<string, ValidationRule[]> = {
   ],
   
   task: [
-    {
-      name: 'required_columns',
-      description: 'Check for missing required columns',
-      validate: (data: any[], entityType: string) => {
-        const errors: ValidationError[] = [];
-        const requiredColumns = ['taskid', 'taskname', 'duration', 'requiredskills', 'preferredphases', 'maxconcurrent'];
-        
-        if (data.length === 0) return errors;
-        
-        const headers = Object.keys(data[0]);
-        const missingColumns = requiredColumns.filter(col => 
-          !headers.some(header => header.toLowerCase().includes(col.toLowerCase()))
-        );
-        
-        if (missingColumns.length > 0) {
-          errors.push({
-            type: 'error',
-            message: `Missing required columns: ${missingColumns.join(', ')}`,
-            severity: 'high'
-          });
-        }
-        
-        return errors;
-      }
-    },
+    requiredColumnsRule,
+    fieldTypesRule,
+    columnTypeOutliersRule,
     {
       name: 'duplicate_task_ids',
       description: 'Check for duplicate TaskIDs',
-      validate: (data: any[], entityType: string) => {
+      validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas) => {
         const errors: ValidationError[] = [];
-        const idColumn = findColumnByPattern(data, ['taskid', 'task_id', 'id']);
+        const idColumn = findFieldColumn(data, schemas, 'task', 'taskid');
         
         if (!idColumn) return errors;
         
@@ -493,128 +352,14 @@ export const validationRules: Record<string, ValidationRule[]> = {
         return errors;
       }
     },
-    {
-      name: 'duration_validation',
-      description: 'Validate Duration is >= 1',
-      validate: (data: any[], entityType: string) => {
-        const errors: ValidationError[] = [];
-        const durationColumn = findColumnByPattern(data, ['duration']);
-        
-        if (!durationColumn) return errors;
-        
-        data.forEach((row, index) => {
-          const duration = row[durationColumn];
-          if (duration !== undefined && duration !== '') {
-            const durationNum = typeof duration === 'number' ? duration : parseInt(duration);
-            if (isNaN(durationNum) || durationNum < 1) {
-              errors.push({
-                type: 'error',
-                message: 'Duration must be >= 1',
-                rowIndex: index,
-                column: durationColumn,
-                value: duration,
-                severity: 'medium'
-              });
-            }
-          }
-        });
-        
-        return errors;
-      }
-    },
-    {
-      name: 'required_skills_format',
-      description: 'Validate RequiredSkills format (comma-separated)',
-      validate: (data: any[], entityType: string) => {
-        const errors: ValidationError[] = [];
-        const skillsColumn = findColumnByPattern(data, ['requiredskills', 'required_skills', 'skills']);
-        
-        if (!skillsColumn) return errors;
-        
-        data.forEach((row, index) => {
-          const skills = row[skillsColumn];
-          if (skills && skills !== '') {
-            const skillList = parseCommaSeparated(skills);
-            if (skillList.length === 0) {
-              errors.push({
-                type: 'warning',
-                message: 'RequiredSkills should contain valid skill tags',
-                rowIndex: index,
-                column: skillsColumn,
-                value: skills,
-                severity: 'medium'
-              });
-            }
-          }
-        });
-        
-        return errors;
-      }
-    },
-    {
-      name: 'preferred_phases_format',
-      description: 'Validate PreferredPhases format (range or list)',
-      validate: (data: any[], entityType: string) => {
-        const errors: ValidationError[] = [];
-        const phasesColumn = findColumnByPattern(data, ['preferredphases', 'preferred_phases', 'phases']);
-        
-        if (!phasesColumn) return errors;
-        
-        data.forEach((row, index) => {
-          const phases = row[phasesColumn];
-          if (phases && phases !== '') {
-            const phaseList = parsePhaseRange(phases);
-            if (phaseList.length === 0) {
-              errors.push({
-                type: 'warning',
-                message: 'PreferredPhases should contain valid phase numbers or ranges',
-                rowIndex: index,
-                column: phasesColumn,
-                value: phases,
-                severity: 'medium'
-              });
-            }
-          }
-        });
-        
-        return errors;
-      }
-    },
-    {
-      name: 'max_concurrent_validation',
-      description: 'Validate MaxConcurrent is positive',
-      validate: (data: any[], entityType: string) => {
-        const errors: ValidationError[] = [];
-        const maxConcurrentColumn = findColumnByPattern(data, ['maxconcurrent', 'max_concurrent', 'concurrent']);
-        
-        if (!maxConcurrentColumn) return errors;
-        
-        data.forEach((row, index) => {
-          const maxConcurrent = row[maxConcurrentColumn];
-          if (maxConcurrent !== undefined && maxConcurrent !== '') {
-            const maxConcurrentNum = typeof maxConcurrent === 'number' ? maxConcurrent : parseInt(maxConcurrent);
-            if (isNaN(maxConcurrentNum) || maxConcurrentNum < 1) {
-              errors.push({
-                type: 'error',
-                message: 'MaxConcurrent must be >= 1',
-                rowIndex: index,
-                column: maxConcurrentColumn,
-                value: maxConcurrent,
-                severity: 'medium'
-              });
-            }
-          }
-        });
-        
-        return errors;
-      }
-    },
+    fieldRangeRule('duration_validation', 'task', 'duration', 'Duration', 1),
+    fieldRangeRule('max_concurrent_validation', 'task', 'maxconcurrent', 'MaxConcurrent', 1),
     {
       name: 'category_validation',
       description: 'Validate Category format',
-      validate: (data: any[], entityType: string) => {
+      validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas) => {
         const errors: ValidationError[] = [];
-        const categoryColumn = findColumnByPattern(data, ['category']);
+        const categoryColumn = findFieldColumn(data, schemas, 'task', 'category');
         
         if (!categoryColumn) return errors;
         
@@ -645,16 +390,16 @@ export const crossEntityValidationRules: ValidationRule[] = [
   {
     name: 'client_task_references',
     description: 'Check if RequestedTaskIDs reference existing tasks',
-    validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData) => {
+    validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas) => {
       const errors: ValidationError[] = [];
       
       if (!crossEntityData?.tasks || entityType !== 'client') return errors;
       
-      const tasksColumn = findColumnByPattern(data, ['requestedtaskids', 'requested_task_ids', 'requestedtasks']);
+      const tasksColumn = findFieldColumn(data, schemas, 'client', 'requestedtaskids');
       if (!tasksColumn) return errors;
       
              const existingTaskIds = new Set((crossEntityData.tasks || []).map(task => {
-         const idColumn = findColumnByPattern(crossEntityData.tasks || [], ['taskid', 'task_id', 'id']);
+         const idColumn = findFieldColumn(crossEntityData.tasks || [], schemas, 'task', 'taskid');
          return idColumn ? task[idColumn] : null;
        }).filter(id => id !== null && id !== ''));
       
@@ -683,18 +428,18 @@ export const crossEntityValidationRules: ValidationRule[] = [
   {
     name: 'task_worker_skill_coverage',
     description: 'Check if every RequiredSkill maps to ≥1 worker',
-    validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData) => {
+    validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas) => {
       const errors: ValidationError[] = [];
       
       if (!crossEntityData?.workers || entityType !== 'task') return errors;
       
-      const skillsColumn = findColumnByPattern(data, ['requiredskills', 'required_skills', 'skills']);
+      const skillsColumn = findFieldColumn(data, schemas, 'task', 'requiredskills');
       if (!skillsColumn) return errors;
       
              // Collect all worker skills
        const allWorkerSkills = new Set<string>();
        (crossEntityData.workers || []).forEach(worker => {
-         const workerSkillsColumn = findColumnByPattern(crossEntityData.workers || [], ['skills']);
+         const workerSkillsColumn = findFieldColumn(crossEntityData.workers || [], schemas, 'worker', 'skills');
          if (workerSkillsColumn) {
            const skills = parseCommaSeparated(worker[workerSkillsColumn]);
            skills.forEach(skill => allWorkerSkills.add(skill.toLowerCase()));
@@ -726,47 +471,43 @@ export const crossEntityValidationRules: ValidationRule[] = [
   {
     name: 'phase_slot_saturation',
     description: 'Check if sum of task durations per phase ≤ total worker slots',
-    validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData) => {
+    validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas) => {
       const errors: ValidationError[] = [];
       
       if (!crossEntityData?.workers || entityType !== 'task') return errors;
       
-      const durationColumn = findColumnByPattern(data, ['duration']);
-      const phasesColumn = findColumnByPattern(data, ['preferredphases', 'preferred_phases', 'phases']);
+      const durationColumn = findFieldColumn(data, schemas, 'task', 'duration');
+      const phasesColumn = findFieldColumn(data, schemas, 'task', 'preferredphases');
       
       if (!durationColumn || !phasesColumn) return errors;
       
              // Calculate total worker slots per phase
        const phaseSlots: Record<number, number> = {};
        (crossEntityData.workers || []).forEach(worker => {
-         const slotsColumn = findColumnByPattern(crossEntityData.workers || [], ['availableslots', 'available_slots', 'slots']);
+         const slotsColumn = findFieldColumn(crossEntityData.workers || [], schemas, 'worker', 'availableslots');
          if (slotsColumn) {
-           try {
-             const slots = Array.isArray(worker[slotsColumn]) ? worker[slotsColumn] : JSON.parse(worker[slotsColumn]);
-             if (Array.isArray(slots)) {
-               slots.forEach(phase => {
-                 if (typeof phase === 'number' && phase > 0) {
-                   phaseSlots[phase] = (phaseSlots[phase] || 0) + 1;
-                 }
-               });
-             }
-           } catch (e) {
-             // Skip invalid slots
-           }
+           const slots = worker[slotsColumn];
+           // Invalid slots are skipped here, fieldTypesRule reports them on the worker table
+           if (!slots || checkFieldType(slots, getField(schemas, 'worker', 'availableslots')?.type ?? 'phaseList')) return;
+           phaseNumbers(slots).forEach(phase => {
+             phaseSlots[phase] = (phaseSlots[phase] || 0) + 1;
+           });
          }
        });
       
-      // Calculate task workload per phase
+      // Calculate task workload per phase, values of the wrong type are left to fieldTypesRule
+      const durationType = getField(schemas, 'task', 'duration')?.type ?? 'integer';
+      const phasesType = getField(schemas, 'task', 'preferredphases')?.type ?? 'phaseList';
       const phaseWorkload: Record<number, number> = {};
       data.forEach((row, index) => {
         const duration = row[durationColumn];
         const phases = row[phasesColumn];
         
-        if (duration && phases) {
-          const durationNum = typeof duration === 'number' ? duration : parseInt(duration);
-          const phaseList = parsePhaseRange(phases);
+        if (duration && phases && !checkFieldType(duration, durationType) && !checkFieldType(phases, phasesType)) {
+          const durationNum = Number(duration);
+          const phaseList = phaseNumbers(phases);
           
-          if (!isNaN(durationNum) && phaseList.length > 0) {
+          if (phaseList.length > 0) {
             phaseList.forEach(phase => {
               phaseWorkload[phase] = (phaseWorkload[phase] || 0) + durationNum;
             });
@@ -794,29 +535,30 @@ export const crossEntityValidationRules: ValidationRule[] = [
   {
     name: 'max_concurrency_feasibility',
     description: 'Check if MaxConcurrent ≤ count of qualified, available workers',
-    validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData) => {
+    validate: (data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas) => {
       const errors: ValidationError[] = [];
       
       if (!crossEntityData?.workers || entityType !== 'task') return errors;
       
-      const maxConcurrentColumn = findColumnByPattern(data, ['maxconcurrent', 'max_concurrent', 'concurrent']);
-      const skillsColumn = findColumnByPattern(data, ['requiredskills', 'required_skills', 'skills']);
+      const maxConcurrentColumn = findFieldColumn(data, schemas, 'task', 'maxconcurrent');
+      const skillsColumn = findFieldColumn(data, schemas, 'task', 'requiredskills');
       
       if (!maxConcurrentColumn || !skillsColumn) return errors;
       
+      const maxConcurrentType = getField(schemas, 'task', 'maxconcurrent')?.type ?? 'integer';
       data.forEach((row, index) => {
         const maxConcurrent = row[maxConcurrentColumn];
         const requiredSkills = row[skillsColumn];
         
-        if (maxConcurrent && requiredSkills) {
-          const maxConcurrentNum = typeof maxConcurrent === 'number' ? maxConcurrent : parseInt(maxConcurrent);
+        if (maxConcurrent && requiredSkills && !checkFieldType(maxConcurrent, maxConcurrentType)) {
+          const maxConcurrentNum = Number(maxConcurrent);
           const skillList = parseCommaSeparated(requiredSkills);
           
-          if (!isNaN(maxConcurrentNum) && skillList.length > 0) {
+          if (skillList.length > 0) {
                          // Count qualified workers
              let qualifiedWorkers = 0;
              (crossEntityData.workers || []).forEach(worker => {
-               const workerSkillsColumn = findColumnByPattern(crossEntityData.workers || [], ['skills']);
+               const workerSkillsColumn = findFieldColumn(crossEntityData.workers || [], schemas, 'worker', 'skills');
                if (workerSkillsColumn) {
                  const workerSkills = parseCommaSeparated(worker[workerSkillsColumn]);
                  const hasAllSkills = skillList.every(skill => 
@@ -847,6 +589,17 @@ export const crossEntityValidationRules: ValidationRule[] = [
   }
 ];
 
+// Phases written as a JSON array or as ranges like "1-3,5"
+function phaseNumbers(value: any): number[] {
+  const parsed = parseJSON(value);
+  return Array.isArray(parsed) ? parsed : parsePhaseRange(value);
+}
+
+// Helper function to find the column holding a schema field
+function findFieldColumn(data: any[], schemas: SchemaRegistry, entity: string, field: string): string | null {
+  return findColumnByPattern(data, getFieldPatterns(schemas, entity, field));
+}
+
 // Helper function to find column by pattern
 function findColumnByPattern(data: any[], patterns: string[]): string | null {
   if (data.length === 0) return null;
@@ -862,44 +615,77 @@ function findColumnByPattern(data: any[], patterns: string[]): string | null {
 }
 
 // Main validation function
-export function validateData(data: any[], entityType: string, crossEntityData?: CrossEntityData): ValidationResult {
+export function validateData(data: any[], entityType: string, crossEntityData?: CrossEntityData, schemas: SchemaRegistry = defaultSchemas, profiles?: Record<string, ColumnProfile>): ValidationResult {
   const allErrors: ValidationError[] = [];
   
   // Run entity-specific validations
-  const entityRules = validationRules[entityType] || [];
+  const entityRules = validationRules[entityType] || (isCustomEntity(entityType) ? customEntityRules : []);
   entityRules.forEach(rule => {
-    const ruleErrors = rule.validate(data, entityType, crossEntityData);
+    const ruleErrors = rule.validate(data, entityType, crossEntityData, schemas, profiles);
     allErrors.push(...ruleErrors);
   });
   
   // Run cross-entity validations
   crossEntityValidationRules.forEach(rule => {
-    const ruleErrors = rule.validate(data, entityType, crossEntityData);
+    const ruleErrors = rule.validate(data, entityType, crossEntityData, schemas);
     allErrors.push(...ruleErrors);
   });
   
-  // Generate summary
+  return {
+    errors: allErrors,
+    summary: summarizeErrors(allErrors)
+  };
+}
+
+export function summarizeErrors(errors: ValidationError[]): ValidationResult['summary'] {
   const errorTypes: Record<string, number> = {};
   const affectedRows = new Set<number>();
   
-  allErrors.forEach(error => {
+  errors.forEach(error => {
     errorTypes[error.message] = (errorTypes[error.message] || 0) + 1;
     if (error.rowIndex !== undefined) {
       affectedRows.add(error.rowIndex);
     }
   });
   
-  const summary = {
-    totalErrors: allErrors.filter(e => e.type === 'error').length,
-    totalWarnings: allErrors.filter(e => e.type === 'warning').length,
+  return {
+    totalErrors: errors.filter(e => e.type === 'error').length,
+    totalWarnings: errors.filter(e => e.type === 'warning').length,
     errorTypes,
     affectedRows: Array.from(affectedRows).sort((a, b) => a - b)
   };
-  
-  return {
-    errors: allErrors,
-    summary
-  };
+}
+
+// A validation issue the user chose to hide, keyed by row ID so it survives row reordering
+export interface SuppressedIssue {
+  entity: EntityType;
+  // ID of the row, null for issues about the whole table
+  id: string | null;
+  column?: string;
+  message: string;
+}
+
+function rowIdOf(rows: any[], rowIndex: number | undefined, idField: string | null): string | null {
+  if (rowIndex === undefined) return null;
+  return idField ? String(rows[rowIndex]?.[idField] ?? '') : `#${rowIndex}`;
+}
+
+export function toSuppressedIssue(error: ValidationError, entity: EntityType, rows: any[], schemas: SchemaRegistry = defaultSchemas): SuppressedIssue {
+  const issue: SuppressedIssue = { entity, id: rowIdOf(rows, error.rowIndex, getIdField(schemas, entity)), message: error.message };
+  if (error.column !== undefined) issue.column = error.column;
+  return issue;
+}
+
+const suppressionKey = (issue: SuppressedIssue) => JSON.stringify([issue.entity, issue.id, issue.column ?? null, issue.message]);
+
+export const isSameIssue = (a: SuppressedIssue, b: SuppressedIssue) => suppressionKey(a) === suppressionKey(b);
+
+// The result without the issues the user hid, unchanged when none of them belong to the entity
+export function hideSuppressedIssues(result: ValidationResult, suppressed: SuppressedIssue[], entity: EntityType, rows: any[], schemas: SchemaRegistry = defaultSchemas): ValidationResult {
+  const keys = new Set(suppressed.filter(issue => issue.entity === entity).map(suppressionKey));
+  if (keys.size === 0) return result;
+  const errors = result.errors.filter(error => !keys.has(suppressionKey(toSuppressedIssue(error, entity, rows, schemas))));
+  return errors.length === result.errors.length ? result : { errors, summary: summarizeErrors(errors) };
 }
 
 // Function to get errors for a specific row
@@ -912,4 +698,29 @@ export function getCellErrors(errors: ValidationError[], rowIndex: number, colum
   return errors.filter(error => 
     error.rowIndex === rowIndex && error.column === column
   );
-} 
\ No newline at end of file
+} 
+
+// Errors grouped by row and by cell, so grid lookups do not scan the whole error list
+export interface ValidationErrorIndex {
+  byRow: Map<number, ValidationError[]>;
+  byCell: Map<string, ValidationError[]>;
+}
+
+export const cellKey = (rowIndex: number, column: string) => `${rowIndex}:${column}`;
+
+function addToIndex<K>(index: Map<K, ValidationError[]>, key: K, error: ValidationError) {
+  const list = index.get(key);
+  if (list) list.push(error);
+  else index.set(key, [error]);
+}
+
+export function indexValidationErrors(errors: ValidationError[]): ValidationErrorIndex {
+  const byRow = new Map<number, ValidationError[]>();
+  const byCell = new Map<string, ValidationError[]>();
+  errors.forEach(error => {
+    if (error.rowIndex === undefined) return;
+    addToIndex(byRow, error.rowIndex, error);
+    if (error.column !== undefined) addToIndex(byCell, cellKey(error.rowIndex, error.column), error);
+  });
+  return { byRow, byCell };
+}
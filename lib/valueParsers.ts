@@ -0,0 +1,81 @@
+import { FieldType } from './schemas';
+
+// Parsers for the string values that arrive from CSV, XLSX and JSON imports
+export function parseCommaSeparated(value: any): string[] {
+  if (!value) return [];
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    return value.split(',').map(s => s.trim()).filter(s => s.length > 0);
+  }
+  return [];
+}
+
+export function parsePhaseRange(value: any): number[] {
+  if (!value) return [];
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    // Handle range syntax like "1-3" or "2-4,6"
+    const parts = value.split(',');
+    const phases: number[] = [];
+    
+    for (const part of parts) {
+      const trimmed = part.trim();
+      if (trimmed.includes('-')) {
+        const [start, end] = trimmed.split('-').map(s => parseInt(s.trim()));
+        if (!isNaN(start) && !isNaN(end) && start <= end) {
+          for (let i = start; i <= end; i++) {
+            phases.push(i);
+          }
+        }
+      } else {
+        const num = parseInt(trimmed);
+        if (!isNaN(num)) {
+          phases.push(num);
+        }
+      }
+    }
+    
+    return phases;
+  }
+  return [];
+}
+
+export function parseJSON(value: any): any {
+  if (!value) return null;
+  if (typeof value === 'object') return value;
+  if (typeof value === 'string') {
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+// Describe why a value does not match a schema field type, null when it does
+export function checkFieldType(value: any, type: FieldType): string | null {
+  switch (type) {
+    case 'integer':
+      return /^-?\d+$/.test(String(value).trim()) ? null : 'must be a whole number';
+    case 'number':
+      return String(value).trim() !== '' && !isNaN(Number(value)) ? null : 'must be a number';
+    case 'list':
+      return parseCommaSeparated(value).length > 0 ? null : 'must be a comma-separated list';
+    case 'phaseList': {
+      const parsed = parseJSON(value);
+      if (Array.isArray(parsed)) {
+        return parsed.every(phase => typeof phase === 'number' && phase > 0) ? null : 'must be a list of phase numbers';
+      }
+      return parsePhaseRange(value).length > 0 ? null : 'must be a list of phase numbers';
+    }
+    case 'json':
+      return parseJSON(value) !== null ? null : 'must be valid JSON';
+    case 'email':
+      return /^[\w-.]+@([\w-]+\.)+[\w-]{2,4}$/.test(String(value)) ? null : 'must be a valid email';
+    case 'date':
+      return !isNaN(Date.parse(String(value))) ? null : 'must be a valid date';
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,108 @@
+import Papa from 'papaparse';
+import { ValidationError, ValidationResult } from './validation';
+import { indexById, sameValue, toText } from './mergeImport';
+
+export interface CellChange {
+  column: string;
+  before: any;
+  after: any;
+}
+
+export interface RowChange {
+  id: string;
+  cells: CellChange[];
+}
+
+// A validation error tied to a row ID rather than a row index, so both versions can be compared
+export interface DiffIssue {
+  id: string | null;
+  column?: string;
+  message: string;
+  type: ValidationError['type'];
+  severity: ValidationError['severity'];
+}
+
+// Changes between the current table and a newer file of the same entity, keyed on the entity ID
+export interface VersionDiff {
+  idColumn: string;
+  added: any[];
+  removed: any[];
+  changed: RowChange[];
+  unchangedCount: number;
+  addedColumns: string[];
+  removedColumns: string[];
+  introducedIssues: DiffIssue[];
+  resolvedIssues: DiffIssue[];
+}
+
+function toIssues(rows: any[], result: ValidationResult, idColumn: string): DiffIssue[] {
+  return result.errors.map(error => ({
+    id: error.rowIndex !== undefined ? toText(rows[error.rowIndex]?.[idColumn]) || `row ${error.rowIndex + 1}` : null,
+    column: error.column,
+    message: error.message,
+    type: error.type,
+    severity: error.severity
+  }));
+}
+
+const issueKey = (issue: DiffIssue) => `${issue.id ?? ''}|${issue.column ?? ''}|${issue.message}`;
+
+export function buildVersionDiff(
+  current: any[],
+  incoming: any[],
+  idColumn: string,
+  currentResult: ValidationResult,
+  incomingResult: ValidationResult
+): VersionDiff {
+  const before = indexById(current, idColumn);
+  const after = indexById(incoming, idColumn);
+  const currentColumns = current.length > 0 ? Object.keys(current[0]) : [];
+  const incomingColumns = incoming.length > 0 ? Object.keys(incoming[0]) : [];
+  const sharedColumns = incomingColumns.filter(column => currentColumns.includes(column));
+
+  const changed: RowChange[] = [];
+  let unchangedCount = 0;
+  after.forEach((row, id) => {
+    const previous = before.get(id);
+    if (!previous) return;
+    const cells = sharedColumns
+      .filter(column => !sameValue(previous[column], row[column]))
+      .map(column => ({ column, before: previous[column] ?? '', after: row[column] ?? '' }));
+    if (cells.length > 0) changed.push({ id, cells });
+    else unchangedCount++;
+  });
+
+  const currentIssues = toIssues(current, currentResult, idColumn);
+  const incomingIssues = toIssues(incoming, incomingResult, idColumn);
+  const currentKeys = new Set(currentIssues.map(issueKey));
+  const incomingKeys = new Set(incomingIssues.map(issueKey));
+
+  return {
+    idColumn,
+    added: Array.from(after.entries()).filter(([id]) => !before.has(id)).map(([, row]) => row),
+    removed: Array.from(before.entries()).filter(([id]) => !after.has(id)).map(([, row]) => row),
+    changed,
+    unchangedCount,
+    addedColumns: incomingColumns.filter(column => !currentColumns.includes(column)),
+    removedColumns: currentColumns.filter(column => !incomingColumns.includes(column)),
+    introducedIssues: incomingIssues.filter(issue => !currentKeys.has(issueKey(issue))),
+    resolvedIssues: currentIssues.filter(issue => !incomingKeys.has(issueKey(issue)))
+  };
+}
+
+// One line per change: added/removed rows, changed cells and validation errors that came or went
+export function versionDiffToCsv(diff: VersionDiff): string {
+  const lines: Record<string, any>[] = [];
+  const line = (change: string, id: string | null, column = '', before: any = '', after: any = '') =>
+    lines.push({ change, [diff.idColumn]: id ?? '', column, before, after });
+
+  diff.added.forEach(row => line('row added', toText(row[diff.idColumn])));
+  diff.removed.forEach(row => line('row removed', toText(row[diff.idColumn])));
+  diff.changed.forEach(row => row.cells.forEach(cell => line('cell changed', row.id, cell.column, cell.before, cell.after)));
+  diff.addedColumns.forEach(column => line('column added', null, column));
+  diff.removedColumns.forEach(column => line('column removed', null, column));
+  diff.introducedIssues.forEach(issue => line(`${issue.type} introduced`, issue.id, issue.column, '', issue.message));
+  diff.resolvedIssues.forEach(issue => line(`${issue.type} resolved`, issue.id, issue.column, issue.message, ''));
+
+  return Papa.unparse(lines, { columns: ['change', diff.idColumn, 'column', 'before', 'after'] });
+}
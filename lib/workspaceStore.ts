@@ -0,0 +1,143 @@
+import { SchemaRegistry } from './schemas';
+import { EntityType, FileMetadata } from './dataImport';
+import { HeaderMapping } from './headerMapping';
+import { GridViewSettings } from './gridView';
+import { HistoryEntry } from './history';
+import { SuppressedIssue } from './validation';
+import { BusinessRule } from './ruleEngine';
+import { PrioritizationConfig } from './prioritizationEngine';
+
+const DB_NAME = 'data-alchemist';
+const DB_VERSION = 1;
+const STORE_NAME = 'workspaces';
+const CURRENT_KEY = 'data-alchemist:current-workspace';
+
+// What a saved workspace keeps of a table, validation and profiles are worked out again after loading
+export interface StoredTable {
+  file: FileMetadata | null;
+  editedData: any[];
+  importedData: any[];
+  headerMapping: HeaderMapping[];
+}
+
+export interface DataSnapshot {
+  tables: Partial<Record<EntityType, StoredTable>>;
+  activeEntity: EntityType | null;
+  history: HistoryEntry[];
+  historyPosition: number;
+}
+
+// Everything needed to pick up where the user left off
+export interface Workspace {
+  id: string;
+  name: string;
+  savedAt: string;
+  data: DataSnapshot;
+  schemas: SchemaRegistry;
+  rules: BusinessRule[];
+  prioritizationConfig: PrioritizationConfig | null;
+  gridViews: Record<string, GridViewSettings>;
+  suppressedIssues: SuppressedIssue[];
+}
+
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  savedAt: string;
+  tableCount: number;
+  rowCount: number;
+}
+
+export const isWorkspaceStoreAvailable = () => typeof window !== 'undefined' && 'indexedDB' in window;
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export function summarizeWorkspace(workspace: Workspace): WorkspaceSummary {
+  const tables = Object.values(workspace.data.tables) as StoredTable[];
+  return {
+    id: workspace.id,
+    name: workspace.name,
+    savedAt: workspace.savedAt,
+    tableCount: tables.length,
+    rowCount: tables.reduce((sum, table) => sum + table.editedData.length, 0)
+  };
+}
+
+// Compared by reference, the store keeps the parts that did not change, so table validation and
+// profiles being worked out again do not count as a change. The prioritization panel emits a fresh
+// config whenever it mounts, so that one is compared by value.
+export function hasSameContent(a: Workspace, b: Workspace): boolean {
+  const entities = Object.keys(a.data.tables) as EntityType[];
+  const sameTables = entities.length === Object.keys(b.data.tables).length && entities.every(entity => {
+    const tableA = a.data.tables[entity]!;
+    const tableB = b.data.tables[entity];
+    return !!tableB && tableA.file === tableB.file && tableA.editedData === tableB.editedData
+      && tableA.importedData === tableB.importedData && tableA.headerMapping === tableB.headerMapping;
+  });
+  return sameTables && a.id === b.id && a.name === b.name && a.data.activeEntity === b.data.activeEntity
+    && a.data.history === b.data.history && a.data.historyPosition === b.data.historyPosition
+    && a.schemas === b.schemas && a.rules === b.rules
+    && JSON.stringify(a.prioritizationConfig) === JSON.stringify(b.prioritizationConfig)
+    && a.gridViews === b.gridViews && a.suppressedIssues === b.suppressedIssues;
+}
+
+// Most recently saved first
+export async function listWorkspaces(): Promise<WorkspaceSummary[]> {
+  const workspaces = await withStore<Workspace[]>('readonly', store => store.getAll());
+  return workspaces.map(summarizeWorkspace).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+export async function loadWorkspace(id: string): Promise<Workspace | null> {
+  const workspace = await withStore<Workspace | undefined>('readonly', store => store.get(id));
+  return workspace ?? null;
+}
+
+export async function saveWorkspace(workspace: Workspace): Promise<void> {
+  await withStore('readwrite', store => store.put(workspace));
+}
+
+export async function deleteWorkspace(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
+
+export function createWorkspaceId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+// The workspace the page was last working in, offered first on reload
+export function getCurrentWorkspaceId(): string | null {
+  if (typeof window === 'undefined') return null;
+  return window.localStorage.getItem(CURRENT_KEY);
+}
+
+export function setCurrentWorkspaceId(id: string | null) {
+  if (typeof window === 'undefined') return;
+  if (id) window.localStorage.setItem(CURRENT_KEY, id);
+  else window.localStorage.removeItem(CURRENT_KEY);
+}
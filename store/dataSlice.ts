@@ -1,41 +1,263 @@
-import { createSlice, PayloadAction } from "@reduxjs/toolkit";
-import { ValidationResult } from "@/lib/validation";
+import { createSelector, createSlice, original, PayloadAction } from "@reduxjs/toolkit";
+import { ValidationResult, CrossEntityData } from "@/lib/validation";
+import { ColumnProfile } from "@/lib/columnProfile";
+import { EntityType, FileMetadata, entityDataKeys } from "@/lib/dataImport";
+import { isCustomEntity } from "@/lib/schemas";
+import { CellEdit, CellPatch, HistoryEntry, HistoryPatch, applyRowsPatch, diffRows } from "@/lib/history";
+import { HeaderMapping } from "@/lib/headerMapping";
+import { DataSnapshot } from "@/lib/workspaceStore";
 
-interface DataState {
-    file: File | null;
-    data: any;
+export interface EntityTable {
+    file: FileMetadata | null;
+    data: any[];
+    editedData: any[];
+    // Rows as they came from the files, the reference for telling local edits apart in a merge
+    importedData: any[];
+    // How the original file headers were mapped onto the columns
+    headerMapping: HeaderMapping[];
     validationResult: ValidationResult | null;
+    columnProfiles: Record<string, ColumnProfile> | null;
+}
+
+export interface DataState {
+    tables: Partial<Record<EntityType, EntityTable>>;
+    activeEntity: EntityType | null;
     isValidationRunning: boolean;
+    // Edits of every table, entries before historyPosition are applied
+    history: HistoryEntry[];
+    historyPosition: number;
+}
+
+export interface TablePayload {
+    entity: EntityType;
+    file: FileMetadata | null;
+    rows: any[];
+    mapping?: HeaderMapping[];
 }
 
 const initialState: DataState = {
-    file: null,
-    data: null,
-    validationResult: null,
+    tables: {},
+    activeEntity: null,
     isValidationRunning: false,
+    history: [],
+    historyPosition: 0,
+}
+
+const MAX_HISTORY = 100
+
+function recordHistory(state: DataState, entity: EntityType, label: string, patch: HistoryPatch, open?: boolean){
+    // A new edit drops the entries that were undone
+    state.history.splice(state.historyPosition)
+    const last = state.history[state.history.length - 1]
+    if(last) delete last.open
+    state.history.push({id: (last?.id ?? 0) + 1, entity, label, patch, open})
+    if(state.history.length > MAX_HISTORY) state.history.splice(0, state.history.length - MAX_HISTORY)
+    state.historyPosition = state.history.length
+}
+
+// Entries of a table that is replaced or removed no longer apply
+function dropHistory(state: DataState, entity: EntityType){
+    const kept = state.history.filter(entry => entry.entity !== entity)
+    state.historyPosition = state.history.slice(0, state.historyPosition).filter(entry => entry.entity !== entity).length
+    state.history = kept
+}
+
+function applyPatch(table: EntityTable, patch: HistoryPatch, direction: 'undo' | 'redo'){
+    if(patch.kind === 'cells'){
+        patch.changes.forEach(change => {
+            const row = table.editedData[change.rowIndex]
+            if(row) row[change.column] = direction === 'undo' ? change.before : change.after
+        })
+    }else{
+        applyRowsPatch(table.editedData, patch, direction)
+    }
+    table.data = table.editedData
+}
+
+function moveHistory(state: DataState, position: number){
+    const target = Math.max(0, Math.min(position, state.history.length))
+    while(state.historyPosition > target){
+        const entry = state.history[--state.historyPosition]
+        const table = state.tables[entry.entity as EntityType]
+        if(table) applyPatch(table, entry.patch, 'undo')
+        delete entry.open
+    }
+    while(state.historyPosition < target){
+        const entry = state.history[state.historyPosition++]
+        const table = state.tables[entry.entity as EntityType]
+        if(table) applyPatch(table, entry.patch, 'redo')
+    }
 }
 
 export const dataSlice = createSlice({
     name: "data",
     initialState,
     reducers: {
-        setFile: (state, action: PayloadAction<File> ) => {
-            state.file = action.payload
+        loadTables: (state, action: PayloadAction<TablePayload[]>) => {
+            action.payload.forEach(({entity, file, rows, mapping}) => {
+                dropHistory(state, entity)
+                state.tables[entity] = {file, data: rows, editedData: rows, importedData: rows, headerMapping: mapping ?? [], validationResult: null, columnProfiles: null}
+            })
+            if(action.payload.length > 0 && (!state.activeEntity || !action.payload.some(t => t.entity === state.activeEntity))){
+                state.activeEntity = action.payload[0].entity
+            }
+        },
+        // Rows streamed in after the table was first loaded, or pasted rows when labelled for the history
+        appendTableRows: (state, action: PayloadAction<{entity: EntityType; rows: any[]; label?: string}>) => {
+            const table = state.tables[action.payload.entity]
+            if(!table) return
+            const start = table.editedData.length
+            action.payload.rows.forEach(row => {
+                table.data.push(row)
+                table.editedData.push(row)
+                table.importedData.push(row)
+            })
+            if(action.payload.label){
+                recordHistory(state, action.payload.entity, action.payload.label, {kind: 'rows', removed: [], added: action.payload.rows.map((row, idx) => ({index: start + idx, row}))})
+            }
         },
-        setData: (state, action: PayloadAction<any> ) => {
-            state.data = action.payload
+        // Result of merging a file into an existing table by ID, or of putting repaired lines back where they were
+        mergeTableRows: (state, action: PayloadAction<{entity: EntityType; rows: any[]; importedData: any[]; label: string}>) => {
+            const table = state.tables[action.payload.entity]
+            if(!table) return
+            recordHistory(state, action.payload.entity, action.payload.label, diffRows(original(table.editedData)!, action.payload.rows))
+            table.data = action.payload.rows
+            table.editedData = action.payload.rows
+            table.importedData = action.payload.importedData
         },
-        setValidationResult: (state, action: PayloadAction<ValidationResult | null>) => {
-            state.validationResult = action.payload
+        // Puts back the tables from before an import that was cancelled, null removes a table that did not exist.
+        // Their history entries go back to how they were, other tables keep what was recorded since.
+        revertTables: (state, action: PayloadAction<{tables: Partial<Record<EntityType, EntityTable | null>>; activeEntity: EntityType | null; history: HistoryEntry[]; historyPosition: number}>) => {
+            const {tables, activeEntity, history, historyPosition} = action.payload
+            const entities = Object.keys(tables) as EntityType[]
+            entities.forEach(entity => {
+                const table = tables[entity]
+                if(table) state.tables[entity] = table
+                else delete state.tables[entity]
+            })
+            const isReverted = (entry: HistoryEntry) => entities.includes(entry.entity as EntityType)
+            const current = state.history.filter(entry => !isReverted(entry))
+            const currentPosition = state.history.slice(0, state.historyPosition).filter(entry => !isReverted(entry)).length
+            const byId = (a: HistoryEntry, b: HistoryEntry) => a.id - b.id
+            const applied = [...current.slice(0, currentPosition), ...history.slice(0, historyPosition).filter(isReverted)].sort(byId)
+            const undone = [...current.slice(currentPosition), ...history.slice(historyPosition).filter(isReverted)].sort(byId)
+            state.history = [...applied, ...undone]
+            state.historyPosition = applied.length
+            state.activeEntity = activeEntity && state.tables[activeEntity] ? activeEntity : (Object.keys(state.tables) as EntityType[])[0] ?? null
+        },
+        setActiveEntity: (state, action: PayloadAction<EntityType>) => {
+            state.activeEntity = action.payload
+        },
+        setTableData: (state, action: PayloadAction<{entity: EntityType; data: any[]; label: string}>) => {
+            const table = state.tables[action.payload.entity]
+            if(!table) return
+            const patch = diffRows(original(table.editedData)!, action.payload.data)
+            if(patch.kind === 'rows' || patch.changes.length > 0) recordHistory(state, action.payload.entity, action.payload.label, patch)
+            table.data = action.payload.data
+            table.editedData = action.payload.data
+        },
+        // A changed header mapping renames the columns of the loaded table as one step of the history
+        remapTableColumns: (state, action: PayloadAction<{entity: EntityType; data: any[]; importedData: any[]; mapping: HeaderMapping[]; label: string}>) => {
+            const {entity, data, importedData, mapping, label} = action.payload
+            const table = state.tables[entity]
+            if(!table) return
+            const patch = diffRows(original(table.editedData)!, data)
+            if(patch.kind === 'rows' || patch.changes.length > 0) recordHistory(state, entity, label, patch)
+            table.data = data
+            table.editedData = data
+            table.importedData = importedData
+            table.headerMapping = mapping
+        },
+        updateCell: (state, action: PayloadAction<{entity: EntityType; rowIndex: number; column: string; value: any}>) => {
+            const {entity, rowIndex, column, value} = action.payload
+            const row = state.tables[entity]?.editedData[rowIndex]
+            if(!row) return
+            const last = state.history[state.historyPosition - 1]
+            const change = last?.open && last.entity === entity && last.patch.kind === 'cells' ? last.patch.changes[0] : null
+            if(change && change.rowIndex === rowIndex && change.column === column){
+                change.after = value
+            }else{
+                recordHistory(state, entity, `Edit ${column} (row ${rowIndex + 1})`, {kind: 'cells', changes: [{rowIndex, column, before: row[column] ?? '', after: value}]}, true)
+            }
+            row[column] = value
+        },
+        // Paste and fill-down write many cells as one step of the history
+        updateCells: (state, action: PayloadAction<{entity: EntityType; edits: CellEdit[]; label: string}>) => {
+            const {entity, edits, label} = action.payload
+            const table = state.tables[entity]
+            if(!table) return
+            const changes: CellPatch[] = []
+            edits.forEach(({rowIndex, column, value}) => {
+                const row = table.editedData[rowIndex]
+                if(!row || row[column] === value) return
+                changes.push({rowIndex, column, before: row[column] ?? '', after: value})
+                row[column] = value
+            })
+            if(changes.length > 0) recordHistory(state, entity, label, {kind: 'cells', changes})
+            table.data = table.editedData
+        },
+        commitEdits: (state, action: PayloadAction<EntityType>) => {
+            const table = state.tables[action.payload]
+            if(table) table.data = table.editedData
+            const last = state.history[state.history.length - 1]
+            if(last) delete last.open
+        },
+        // Replaces every table, e.g. when a saved workspace is opened
+        restoreWorkspace: (state, action: PayloadAction<DataSnapshot>) => {
+            const {tables, activeEntity, history, historyPosition} = action.payload
+            const entities = Object.keys(tables) as EntityType[]
+            state.tables = {}
+            entities.forEach(entity => {
+                const table = tables[entity]!
+                state.tables[entity] = {...table, data: table.editedData, validationResult: null, columnProfiles: null}
+            })
+            state.activeEntity = activeEntity && tables[activeEntity] ? activeEntity : entities[0] ?? null
+            state.history = history
+            state.historyPosition = Math.min(historyPosition, history.length)
+            state.isValidationRunning = false
+        },
+        // Undo or redo up to a point in the history, 0 being before the first entry
+        jumpToHistory: (state, action: PayloadAction<number>) => {
+            moveHistory(state, action.payload)
+        },
+        setValidationResult: (state, action: PayloadAction<{entity: EntityType; result: ValidationResult | null}>) => {
+            const table = state.tables[action.payload.entity]
+            if(table) table.validationResult = action.payload.result
+        },
+        setColumnProfiles: (state, action: PayloadAction<{entity: EntityType; profiles: Record<string, ColumnProfile> | null}>) => {
+            const table = state.tables[action.payload.entity]
+            if(table) table.columnProfiles = action.payload.profiles
         },
         setValidationRunning: (state, action: PayloadAction<boolean>) => {
             state.isValidationRunning = action.payload
-        },
-        clearValidation: (state) => {
-            state.validationResult = null
         }
     }
 })
 
-export const {setFile, setData, setValidationResult, setValidationRunning, clearValidation} = dataSlice.actions
-export default dataSlice.reducer
\ No newline at end of file
+export const {loadTables, appendTableRows, mergeTableRows, revertTables, setActiveEntity, setTableData, remapTableColumns, updateCell, updateCells, commitEdits, restoreWorkspace, jumpToHistory, setValidationResult, setColumnProfiles, setValidationRunning} = dataSlice.actions
+
+// The edited rows of every loaded entity, in the shape the validators and rules expect
+export const selectCrossEntityData = createSelector(
+    [(state: {data: DataState}) => state.data.tables],
+    (tables): CrossEntityData => {
+        const crossEntityData: CrossEntityData = {}
+        const entities = Object.keys(tables) as EntityType[]
+        entities.forEach(entity => {
+            if(isCustomEntity(entity)) return
+            crossEntityData[entityDataKeys[entity]] = tables[entity]!.editedData
+        })
+        return crossEntityData
+    }
+)
+
+export default dataSlice.reducer
+
+export function toDataSnapshot(state: DataState): DataSnapshot {
+    const tables: DataSnapshot["tables"] = {}
+    const entities = Object.keys(state.tables) as EntityType[]
+    entities.forEach(entity => {
+        const {file, editedData, importedData, headerMapping} = state.tables[entity]!
+        tables[entity] = {file, editedData, importedData, headerMapping}
+    })
+    return {tables, activeEntity: state.activeEntity, history: state.history, historyPosition: state.historyPosition}
+}
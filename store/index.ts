@@ -1,10 +1,12 @@
 import { configureStore } from "@reduxjs/toolkit";
 import { useDispatch } from "react-redux";
 import dataReducer from "./dataSlice"
+import schemaReducer from "./schemaSlice"
 
 export const store = configureStore({
     reducer: {
         data: dataReducer,
+        schema: schemaReducer,
     },
 })
 
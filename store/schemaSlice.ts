@@ -0,0 +1,26 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { SchemaRegistry, defaultSchemas } from "@/lib/schemas";
+
+interface SchemaState {
+    schemas: SchemaRegistry;
+}
+
+const initialState: SchemaState = {
+    schemas: defaultSchemas,
+}
+
+export const schemaSlice = createSlice({
+    name: "schema",
+    initialState,
+    reducers: {
+        setSchemas: (state, action: PayloadAction<SchemaRegistry>) => {
+            state.schemas = action.payload
+        },
+        resetSchemas: (state) => {
+            state.schemas = defaultSchemas
+        }
+    }
+})
+
+export const {setSchemas, resetSchemas} = schemaSlice.actions
+export default schemaSlice.reducer